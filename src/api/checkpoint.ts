@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { serverSideFilterParams } from './filters';
+import { FetchOptions, TumblrPost, TumblrResponse } from './tumblr';
+
+export interface CheckpointState {
+  blogName: string;
+  // Identifies the fetch options the cached pages were fetched with
+  optionsKey: string;
+  // Cursor for the next page, if any
+  before?: number;
+  pages: number;
+  totalFetched: number;
+  // True once Tumblr reported there are no more pages
+  exhausted: boolean;
+  updatedAt: string;
+}
+
+const STATE_FILE = 'checkpoint.json';
+const PAGES_DIR = 'pages';
+
+// Options that change which posts are fetched; a checkpoint is only valid for the same set
+export function checkpointOptionsKey(options: FetchOptions): string {
+  return JSON.stringify({
+    includePrivate: options.includePrivate || false,
+    // Filters that change what the API returns or where fetching starts and stops
+    ...serverSideFilterParams(options),
+    until: options.until,
+    since: options.since,
+  });
+}
+
+/**
+ * On-disk record of a paginated fetch. Every page Tumblr returns is saved
+ * as-is together with the cursor for the next page, so an interrupted
+ * migration can continue where it stopped instead of starting over.
+ */
+export class FetchCheckpoint {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(): Promise<CheckpointState | null> {
+    const statePath = path.join(this.dir, STATE_FILE);
+    if (!(await fs.pathExists(statePath))) {
+      return null;
+    }
+    return fs.readJson(statePath);
+  }
+
+  // The posts of each saved page, one page in memory at a time
+  async *readPages(): AsyncGenerator<TumblrPost[]> {
+    const state = await this.load();
+    if (!state) {
+      return;
+    }
+
+    for (let page = 1; page <= state.pages; page++) {
+      const response: TumblrResponse = await fs.readJson(this.pagePath(page));
+      yield response.response.posts || [];
+    }
+  }
+
+  async start(blogName: string, optionsKey: string): Promise<CheckpointState> {
+    await this.clear();
+    const state: CheckpointState = {
+      blogName,
+      optionsKey,
+      pages: 0,
+      totalFetched: 0,
+      exhausted: false,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.saveState(state);
+    return state;
+  }
+
+  async savePage(state: CheckpointState, response: TumblrResponse, nextBefore?: number): Promise<CheckpointState> {
+    const pages = state.pages + 1;
+
+    // Write the page before the state so the state never points at a missing page
+    await fs.outputJson(this.pagePath(pages), response, { spaces: 2 });
+
+    const next: CheckpointState = {
+      ...state,
+      before: nextBefore,
+      pages,
+      totalFetched: state.totalFetched + (response.response.posts?.length || 0),
+      exhausted: nextBefore === undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.saveState(next);
+    return next;
+  }
+
+  async markExhausted(state: CheckpointState): Promise<CheckpointState> {
+    const next = { ...state, before: undefined, exhausted: true, updatedAt: new Date().toISOString() };
+    await this.saveState(next);
+    return next;
+  }
+
+  async clear(): Promise<void> {
+    await fs.remove(this.dir);
+  }
+
+  private pagePath(page: number): string {
+    return path.join(this.dir, PAGES_DIR, `${String(page).padStart(6, '0')}.json`);
+  }
+
+  private async saveState(state: CheckpointState): Promise<void> {
+    await fs.outputJson(path.join(this.dir, STATE_FILE), state, { spaces: 2 });
+  }
+}
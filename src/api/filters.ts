@@ -0,0 +1,91 @@
+import { TumblrPost } from './tumblr';
+
+export interface PostFilter {
+  // Unix timestamps in seconds; since is inclusive, until exclusive
+  since?: number;
+  until?: number;
+  // Post types to keep (text, photo, quote, ...)
+  types?: string[];
+  // Keep posts with any of these tags
+  tags?: string[];
+  // Drop posts with any of these tags
+  excludeTags?: string[];
+  // Drop reblogs
+  originalOnly?: boolean;
+  minNotes?: number;
+}
+
+/**
+ * The legacy type of a post. NPF responses report "blocks" as the type and
+ * keep the legacy one in original_type.
+ */
+export function postType(post: TumblrPost): string {
+  return post.original_type || post.type;
+}
+
+export function isReblog(post: TumblrPost): boolean {
+  // Legacy trails of original posts hold just the post itself
+  return !!post.reblogged_from_id || !!post.parent_post_url || (post.trail || []).some(item => !item.is_current_item);
+}
+
+export function matchesFilter(post: TumblrPost, filter: PostFilter): boolean {
+  if (filter.since !== undefined && post.timestamp < filter.since) return false;
+  if (filter.until !== undefined && post.timestamp >= filter.until) return false;
+
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(postType(post))) {
+    return false;
+  }
+
+  const tags = (post.tags || []).map(tag => tag.toLowerCase());
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => tags.includes(tag.toLowerCase()))) {
+    return false;
+  }
+  if (filter.excludeTags && filter.excludeTags.some(tag => tags.includes(tag.toLowerCase()))) {
+    return false;
+  }
+
+  if (filter.originalOnly && isReblog(post)) return false;
+  if (filter.minNotes !== undefined && (post.note_count || 0) < filter.minNotes) return false;
+
+  return true;
+}
+
+/**
+ * Query parameters that let Tumblr do part of the filtering. The API takes
+ * a single tag and a single type, so lists fall back to filtering locally.
+ */
+export function serverSideFilterParams(filter: PostFilter): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filter.tags && filter.tags.length === 1) {
+    params.tag = filter.tags[0];
+  }
+  if (filter.types && filter.types.length === 1) {
+    params.type = filter.types[0];
+  }
+  return params;
+}
+
+// Just the filter fields of larger options, such as FetchOptions
+export function pickFilter(options: PostFilter): PostFilter {
+  const { since, until, types, tags, excludeTags, originalOnly, minNotes } = options;
+  return { since, until, types, tags, excludeTags, originalOnly, minNotes };
+}
+
+export function hasFilter(filter: PostFilter): boolean {
+  return Object.values(filter).some(value => value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0));
+}
+
+/**
+ * Parse a --since/--until value. A bare date means the whole day, so an
+ * --until date is taken as the end of that day.
+ */
+export function parseFilterDate(value: string, endOfDay: boolean = false): number {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD or an ISO 8601 timestamp.`);
+  }
+
+  const seconds = Math.floor(date.getTime() / 1000);
+  return dateOnly && endOfDay ? seconds + 86400 : seconds;
+}
@@ -0,0 +1,202 @@
+import axios, { AxiosInstance, isAxiosError } from 'axios';
+import crypto from 'crypto';
+import { backoffDelay, DEFAULT_RETRY_OPTIONS, parseRetryAfter, RetryOptions } from './rateLimit';
+
+// The fields we read back from Ghost
+export interface GhostAdminPost {
+  id: string;
+  slug: string;
+  updated_at: string;
+}
+
+export interface GhostAdminUser {
+  id: string;
+  email: string;
+}
+
+// A post as sent to the Admin API; Ghost fills in everything else
+export interface GhostAdminPostInput {
+  title: string;
+  slug: string;
+  mobiledoc?: string;
+  lexical?: string;
+  status: string;
+  visibility: string;
+  featured: boolean;
+  published_at: string | null;
+  created_at: string;
+  custom_excerpt: string | null;
+  feature_image: string | null;
+  feature_image_alt: string | null;
+  feature_image_caption: string | null;
+  show_title_and_feature_image: boolean;
+  tags: Array<{ name: string }>;
+  authors?: Array<{ id: string }>;
+  // Required when updating, so Ghost can detect conflicting edits
+  updated_at?: string;
+}
+
+export interface GhostAdminAPIOptions {
+  retry?: RetryOptions;
+}
+
+// Admin API tokens are short-lived; Ghost rejects anything valid for more than 5 minutes
+const TOKEN_LIFETIME_SECONDS = 5 * 60;
+
+function base64Url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Build the HS256 JWT Ghost expects from an Admin API key, which is the key
+ * id and the hex-encoded secret separated by a colon.
+ */
+export function createAdminToken(key: string, now: number = Date.now()): string {
+  const [id, secret] = key.split(':');
+  if (!id || !secret || !/^[0-9a-f]+$/i.test(secret)) {
+    throw new Error('Invalid Ghost Admin API key. Copy it from Settings → Integrations; it looks like <id>:<secret>.');
+  }
+
+  const issuedAt = Math.floor(now / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: id }));
+  const payload = base64Url(JSON.stringify({ iat: issuedAt, exp: issuedAt + TOKEN_LIFETIME_SECONDS, aud: '/admin/' }));
+  const signature = crypto.createHmac('sha256', Buffer.from(secret, 'hex')).update(`${header}.${payload}`).digest();
+
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+export class GhostAdminError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'GhostAdminError';
+    this.status = status;
+  }
+}
+
+/**
+ * Minimal client for the parts of the Ghost Admin API the publisher needs:
+ * looking posts up, creating and updating them, and uploading images.
+ */
+export class GhostAdminAPI {
+  readonly siteUrl: string;
+
+  private client: AxiosInstance;
+  private key: string;
+  private retryOptions: Required<RetryOptions>;
+
+  constructor(siteUrl: string, key: string, options: GhostAdminAPIOptions = {}) {
+    this.siteUrl = siteUrl.replace(/\/+$/, '');
+    this.key = key;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.client = axios.create({
+      baseURL: `${this.siteUrl}/ghost/api/admin/`,
+      timeout: 60000,
+      headers: { 'Accept-Version': 'v5.0' },
+    });
+
+    // Fail on a malformed key before any work is done
+    createAdminToken(key);
+  }
+
+  async findPost(id: string): Promise<GhostAdminPost | null> {
+    return this.findOne<GhostAdminPost>(`posts/${encodeURIComponent(id)}/`, 'posts');
+  }
+
+  async findPostBySlug(slug: string): Promise<GhostAdminPost | null> {
+    return this.findOne<GhostAdminPost>(`posts/slug/${encodeURIComponent(slug)}/`, 'posts');
+  }
+
+  async findUserByEmail(email: string): Promise<GhostAdminUser | null> {
+    return this.findOne<GhostAdminUser>(`users/email/${encodeURIComponent(email)}/`, 'users');
+  }
+
+  async createPost(post: GhostAdminPostInput): Promise<GhostAdminPost> {
+    const data = await this.request<{ posts: GhostAdminPost[] }>('post', 'posts/', { posts: [post] });
+    return data.posts[0];
+  }
+
+  async updatePost(id: string, post: GhostAdminPostInput): Promise<GhostAdminPost> {
+    const data = await this.request<{ posts: GhostAdminPost[] }>('put', `posts/${encodeURIComponent(id)}/`, { posts: [post] });
+    return data.posts[0];
+  }
+
+  /**
+   * Upload an image and return the URL Ghost serves it from.
+   */
+  async uploadImage(data: Buffer, fileName: string, ref?: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data]), fileName);
+    form.append('purpose', 'image');
+    if (ref) {
+      form.append('ref', ref);
+    }
+
+    const response = await this.request<{ images: Array<{ url: string }> }>('post', 'images/upload/', form);
+    return response.images[0].url;
+  }
+
+  /**
+   * Upload a video or audio file, returning its URL on the Ghost site.
+   */
+  async uploadMedia(data: Buffer, fileName: string, ref?: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([data]), fileName);
+    if (ref) {
+      form.append('ref', ref);
+    }
+
+    const response = await this.request<{ media: Array<{ url: string }> }>('post', 'media/upload/', form);
+    return response.media[0].url;
+  }
+
+  private async findOne<T>(url: string, resource: string): Promise<T | null> {
+    try {
+      const data = await this.request<Record<string, T[]>>('get', url);
+      return data[resource]?.[0] || null;
+    } catch (error) {
+      if (error instanceof GhostAdminError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request with a fresh token, retrying network errors, 5xx and 429
+   * responses with exponential backoff.
+   */
+  private async request<T>(method: 'get' | 'post' | 'put', url: string, data?: unknown): Promise<T> {
+    const options = this.retryOptions;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.client.request<T>({
+          method,
+          url,
+          data,
+          headers: { Authorization: `Ghost ${createAdminToken(this.key)}` },
+        });
+        return response.data;
+      } catch (error) {
+        if (!isAxiosError(error)) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        const retryable = status === undefined || status === 429 || status >= 500;
+        if (!retryable || attempt >= options.maxRetries) {
+          const ghostError = error.response?.data?.errors?.[0];
+          const detail = ghostError
+            ? [ghostError.message, ghostError.context].filter(Boolean).join(' ')
+            : error.message;
+          throw new GhostAdminError(`Ghost Admin API error${status ? ` ${status}` : ''}: ${detail}`, status);
+        }
+
+        const wait = parseRetryAfter(error.response?.headers['retry-after']) ?? backoffDelay(attempt, options);
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+export interface OAuthCredentials {
+  consumerKey: string;
+  consumerSecret: string;
+  token: string;
+  tokenSecret: string;
+}
+
+// RFC 3986 percent-encoding, stricter than encodeURIComponent
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Build an OAuth 1.0a (HMAC-SHA1) Authorization header for a request.
+ * `params` are the query or form parameters that will be sent with it.
+ */
+export function buildAuthorizationHeader(
+  method: string,
+  url: string,
+  params: Record<string, unknown>,
+  credentials: OAuthCredentials,
+  nonce: string = crypto.randomBytes(16).toString('hex'),
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: credentials.consumerKey,
+    oauth_nonce: nonce,
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: String(timestamp),
+    oauth_token: credentials.token,
+    oauth_version: '1.0',
+  };
+
+  const allParams: Array<[string, string]> = [
+    ...Object.entries(oauthParams),
+    ...Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]): [string, string] => [key, String(value)]),
+  ];
+
+  const normalized = allParams
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => (keyA === keyB ? (valueA < valueB ? -1 : 1) : keyA < keyB ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const baseUrl = url.split('?')[0];
+  const baseString = [method.toUpperCase(), percentEncode(baseUrl), percentEncode(normalized)].join('&');
+  const signingKey = `${percentEncode(credentials.consumerSecret)}&${percentEncode(credentials.tokenSecret)}`;
+  const signature = crypto.createHmac('sha1', signingKey).update(baseString).digest('base64');
+
+  const header = Object.entries({ ...oauthParams, oauth_signature: signature })
+    .map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`)
+    .join(', ');
+
+  return `OAuth ${header}`;
+}
@@ -0,0 +1,153 @@
+export interface RetryOptions {
+  // Attempts after the first request before giving up
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Longest we will sleep for an hourly quota to reset before failing
+  maxQuotaWaitMs?: number;
+  // Minimum pause between consecutive requests
+  minIntervalMs?: number;
+}
+
+export interface QuotaWindow {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStatus {
+  hourly?: QuotaWindow;
+  daily?: QuotaWindow;
+}
+
+export class TumblrQuotaExceededError extends Error {
+  readonly window: 'hourly' | 'daily';
+  readonly resetAt?: Date;
+
+  constructor(window: 'hourly' | 'daily', resetAt?: Date) {
+    const when = resetAt ? ` It resets at ${resetAt.toISOString()}.` : '';
+    super(`Tumblr ${window} API quota exhausted.${when}`);
+    this.name = 'TumblrQuotaExceededError';
+    this.window = window;
+    this.resetAt = resetAt;
+  }
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  maxQuotaWaitMs: 15 * 60 * 1000,
+  minIntervalMs: 1000,
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * base * 2^attempt, capped at maxDelayMs.
+ */
+export function backoffDelay(attempt: number, options: Required<RetryOptions>, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | undefined, now: Date = new Date()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now.getTime());
+}
+
+/**
+ * Tracks Tumblr's hourly and daily quotas from the X-Ratelimit-* headers
+ * returned with every API response.
+ */
+export class RateLimitTracker {
+  private status: RateLimitStatus = {};
+
+  get current(): RateLimitStatus {
+    return this.status;
+  }
+
+  update(headers: Record<string, unknown>, now: Date = new Date()): void {
+    const hourly = this.readWindow(headers, 'perhour', now);
+    const daily = this.readWindow(headers, 'perday', now);
+    if (hourly) this.status.hourly = hourly;
+    if (daily) this.status.daily = daily;
+  }
+
+  /**
+   * Milliseconds to wait before the next request may be sent. Throws when the
+   * daily quota is gone, or the hourly one is gone for longer than we'll wait.
+   */
+  waitBeforeRequest(options: Required<RetryOptions>, now: Date = new Date()): number {
+    const { daily, hourly } = this.status;
+
+    if (daily && daily.remaining <= 0 && daily.resetAt > now) {
+      throw new TumblrQuotaExceededError('daily', daily.resetAt);
+    }
+
+    if (hourly && hourly.remaining <= 0 && hourly.resetAt > now) {
+      const wait = hourly.resetAt.getTime() - now.getTime();
+      if (wait > options.maxQuotaWaitMs) {
+        throw new TumblrQuotaExceededError('hourly', hourly.resetAt);
+      }
+      return wait;
+    }
+
+    // Spread the remaining hourly requests evenly over the rest of the hour
+    if (hourly && hourly.remaining > 0 && hourly.resetAt > now) {
+      const spread = (hourly.resetAt.getTime() - now.getTime()) / hourly.remaining;
+      return Math.max(options.minIntervalMs, Math.round(spread));
+    }
+
+    return options.minIntervalMs;
+  }
+
+  /**
+   * How long to wait after a 429 before retrying, or null if the quota
+   * window can't be determined from the headers.
+   */
+  waitAfterThrottle(now: Date = new Date()): number | null {
+    const { daily, hourly } = this.status;
+    if (daily && daily.remaining <= 0) {
+      throw new TumblrQuotaExceededError('daily', daily.resetAt);
+    }
+    if (hourly && hourly.remaining <= 0) {
+      return Math.max(0, hourly.resetAt.getTime() - now.getTime());
+    }
+    return null;
+  }
+
+  describe(): string {
+    const parts: string[] = [];
+    if (this.status.hourly) {
+      parts.push(`${this.status.hourly.remaining}/${this.status.hourly.limit} requests left this hour`);
+    }
+    if (this.status.daily) {
+      parts.push(`${this.status.daily.remaining}/${this.status.daily.limit} today`);
+    }
+    return parts.join(', ');
+  }
+
+  private readWindow(headers: Record<string, unknown>, window: 'perhour' | 'perday', now: Date): QuotaWindow | null {
+    const limit = Number(headers[`x-ratelimit-${window}-limit`]);
+    const remaining = Number(headers[`x-ratelimit-${window}-remaining`]);
+    const reset = Number(headers[`x-ratelimit-${window}-reset`]);
+
+    if (!Number.isFinite(limit) || !Number.isFinite(remaining)) {
+      return null;
+    }
+
+    // Tumblr reports the reset as seconds from now
+    const resetSeconds = Number.isFinite(reset) ? reset : window === 'perhour' ? 3600 : 86400;
+    return { limit, remaining, resetAt: new Date(now.getTime() + resetSeconds * 1000) };
+  }
+}
@@ -1,8 +1,180 @@
-import axios, { AxiosInstance } from 'axios';
-import { format } from 'date-fns';
+import axios, { AxiosInstance, isAxiosError } from 'axios';
+import { CheckpointState, checkpointOptionsKey, FetchCheckpoint } from './checkpoint';
+import { hasFilter, matchesFilter, pickFilter, PostFilter, serverSideFilterParams } from './filters';
+import { buildAuthorizationHeader, OAuthCredentials } from './oauth';
+import { PostSource } from '../sources/postSource';
+import {
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  parseRetryAfter,
+  RateLimitStatus,
+  RateLimitTracker,
+  RetryOptions,
+  TumblrQuotaExceededError,
+} from './rateLimit';
+
+export interface TumblrPhotoSize {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface TumblrPhoto {
+  caption: string;
+  original_size: TumblrPhotoSize;
+  alt_sizes: TumblrPhotoSize[];
+}
+
+export interface TumblrChatLine {
+  name: string;
+  label: string;
+  phrase: string;
+}
+
+// Neue Post Format (NPF) content blocks
+export interface NpfMedia {
+  url: string;
+  type?: string;
+  width?: number;
+  height?: number;
+  original_dimensions_missing?: boolean;
+  cropped?: boolean;
+}
+
+export interface NpfFormatting {
+  start: number;
+  end: number;
+  type: 'bold' | 'italic' | 'strikethrough' | 'small' | 'link' | 'mention' | 'color';
+  url?: string;
+  hex?: string;
+  blog?: {
+    uuid: string;
+    name: string;
+    url: string;
+  };
+}
+
+export interface NpfTextBlock {
+  type: 'text';
+  text: string;
+  subtype?:
+    | 'heading1'
+    | 'heading2'
+    | 'quirky'
+    | 'quote'
+    | 'indented'
+    | 'chat'
+    | 'ordered-list-item'
+    | 'unordered-list-item';
+  indent_level?: number;
+  formatting?: NpfFormatting[];
+}
+
+export interface NpfImageBlock {
+  type: 'image';
+  media: NpfMedia[];
+  alt_text?: string;
+  caption?: string;
+}
+
+export interface NpfLinkBlock {
+  type: 'link';
+  url: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  site_name?: string;
+  display_url?: string;
+  poster?: NpfMedia[];
+}
+
+export interface NpfAudioBlock {
+  type: 'audio';
+  url?: string;
+  media?: NpfMedia;
+  provider?: string;
+  title?: string;
+  artist?: string;
+  album?: string;
+  poster?: NpfMedia[];
+  embed_html?: string;
+  embed_url?: string;
+}
+
+export interface NpfVideoBlock {
+  type: 'video';
+  url?: string;
+  media?: NpfMedia;
+  provider?: string;
+  embed_html?: string;
+  embed_url?: string;
+  embed_iframe?: {
+    url: string;
+    width: number;
+    height: number;
+  };
+  poster?: NpfMedia[];
+}
+
+export interface NpfPollBlock {
+  type: 'poll';
+  question: string;
+  answers: Array<{
+    client_id: string;
+    answer_text: string;
+  }>;
+}
+
+export type NpfContentBlock =
+  | NpfTextBlock
+  | NpfImageBlock
+  | NpfLinkBlock
+  | NpfAudioBlock
+  | NpfVideoBlock
+  | NpfPollBlock;
+
+export interface NpfLayout {
+  type: 'rows' | 'ask' | 'condensed';
+  display?: Array<{
+    blocks: number[];
+  }>;
+  blocks?: number[];
+  truncate_after?: number;
+  attribution?: {
+    type: string;
+    blog?: {
+      name: string;
+      url: string;
+    };
+  };
+}
+
+/**
+ * One post in a reblog trail, oldest (the root post) first. NPF trails carry
+ * content blocks; legacy trails carry HTML and include the reblog itself as
+ * the current item. Posts of deleted blogs only have broken_blog_name.
+ */
+export interface TumblrTrailItem {
+  post?: {
+    id?: string;
+  };
+  blog?: {
+    name: string;
+    url?: string;
+    uuid?: string;
+  };
+  broken_blog_name?: string;
+  content?: NpfContentBlock[];
+  layout?: NpfLayout[];
+  // Legacy trail fields
+  content_raw?: string;
+  is_root_item?: boolean;
+  is_current_item?: boolean;
+}
 
 export interface TumblrPost {
   id: string;
+  blog_name?: string;
   type: string;
   timestamp: number;
   date: string;
@@ -14,40 +186,80 @@ export interface TumblrPost {
   source_url: string;
   source_title: string;
   liked: boolean;
+  // Group blogs name the member who wrote the post
+  post_author?: string;
+  // published, private, draft or queued
   state: string;
+  // Set on queued posts, in seconds since the epoch
+  scheduled_publish_time?: number;
   total_posts: number;
   note_count: number;
+  // Reblog data; originals have none of these
+  reblogged_from_id?: string;
+  reblogged_from_url?: string;
+  reblogged_from_name?: string;
+  reblogged_from_title?: string;
+  reblogged_root_id?: string;
+  reblogged_root_url?: string;
+  reblogged_root_name?: string;
+  reblogged_root_title?: string;
+  parent_post_url?: string;
+  trail?: TumblrTrailItem[];
+  // Legacy reblogs split the body into the reblogger's comment and the quoted trail
+  reblog?: {
+    comment: string;
+    tree_html: string;
+  };
   title?: string;
   body?: string;
   slug?: string;
   post_url?: string;
   summary?: string;
   short_url?: string;
-  photos?: Array<{
-    caption: string;
-    original_size: {
-      url: string;
-      width: number;
-      height: number;
-    };
-    alt_sizes: Array<{
-      url: string;
-      width: number;
-      height: number;
-    }>;
-  }>;
+  photos?: TumblrPhoto[];
+  photoset_layout?: string;
+  caption?: string;
+  image_permalink?: string;
   video_url?: string;
   audio_url?: string;
+  audio_source_url?: string;
+  audio_type?: string;
   link_url?: string;
   quote_text?: string;
   quote_source?: string;
   answer?: string;
   question?: string;
-  chat?: Array<{
-    name: string;
-    label: string;
-    phrase: string;
+  chat?: TumblrChatLine[];
+  // NPF fields, present when posts are requested with npf=true
+  content?: NpfContentBlock[];
+  layout?: NpfLayout[];
+  original_type?: string;
+  is_blocks_post_format?: boolean;
+  // Legacy post type fields as returned by the v2 API
+  text?: string;
+  source?: string;
+  url?: string;
+  description?: string;
+  excerpt?: string;
+  publisher?: string;
+  link_image?: string;
+  link_author?: string;
+  dialogue?: TumblrChatLine[];
+  asking_name?: string;
+  asking_url?: string | null;
+  player?: string | Array<{
+    width: number;
+    embed_code: string | false;
   }>;
+  track_name?: string;
+  artist?: string;
+  album?: string;
+  album_art?: string;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+  permalink_url?: string;
+  video_type?: string;
 }
 
 export interface TumblrResponse {
@@ -112,88 +324,345 @@ export interface TumblrResponse {
   };
 }
 
-export interface FetchOptions {
+export interface TumblrAPIOptions {
+  retry?: RetryOptions;
+  // Required for private posts, drafts and the queue
+  oauth?: OAuthCredentials;
+}
+
+// Filters narrow down which posts are returned; see PostFilter
+export interface FetchOptions extends PostFilter {
   limit?: number;
   includePrivate?: boolean;
+  includeDrafts?: boolean;
+  includeQueue?: boolean;
   before?: number;
+  // Persist each fetched page so an interrupted fetch can be resumed
+  checkpoint?: FetchCheckpoint;
+  // Continue from the checkpoint instead of starting over
+  resume?: boolean;
+  // Called with every response fetched from the API, e.g. to save it
+  onResponse?: (response: TumblrResponse) => void | Promise<void>;
 }
 
-export class TumblrAPI {
+const API_BASE_URL = 'https://api.tumblr.com/v2';
+
+// Query parameters of an API request; undefined values are left out
+type RequestParams = Record<string, string | number | boolean | undefined>;
+
+export class TumblrAPI implements PostSource {
+  readonly name = 'Tumblr API';
+
   private client: AxiosInstance;
   private apiKey: string;
+  private retryOptions: Required<RetryOptions>;
+  private oauth?: OAuthCredentials;
+  private rateLimit = new RateLimitTracker();
+  private lastRequestAt = 0;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: TumblrAPIOptions = {}) {
     this.apiKey = apiKey;
+    this.oauth = options.oauth;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
     this.client = axios.create({
-      baseURL: 'https://api.tumblr.com/v2',
+      baseURL: API_BASE_URL,
       timeout: 30000,
     });
   }
 
+  get isAuthenticated(): boolean {
+    return !!this.oauth;
+  }
+
+  get rateLimitStatus(): RateLimitStatus {
+    return this.rateLimit.current;
+  }
+
+  describeRateLimit(): string {
+    return this.rateLimit.describe();
+  }
+
   async fetchAllPosts(blogName: string, options: FetchOptions = {}): Promise<TumblrPost[]> {
-    const { limit = 1000, includePrivate = false } = options;
     const posts: TumblrPost[] = [];
-    let before: number | undefined;
-    let totalFetched = 0;
+    for await (const page of this.iteratePages(blogName, options)) {
+      posts.push(...page);
+    }
+    return posts;
+  }
+
+  /**
+   * Posts a page at a time, so they can be processed while the rest are
+   * still being fetched: the timeline first, then drafts and the queue.
+   */
+  async *iteratePages(blogName: string, options: FetchOptions = {}): AsyncGenerator<TumblrPost[]> {
+    yield* this.timelinePages(blogName, options);
+
+    if (options.includeDrafts) {
+      const drafts = await this.fetchDrafts(blogName, options);
+      if (drafts.length > 0) yield drafts;
+    }
+    if (options.includeQueue) {
+      const queue = await this.fetchQueue(blogName, options);
+      if (queue.length > 0) yield queue;
+    }
+  }
+
+  // Published (and, when authenticated, private) posts, newest first
+  private async *timelinePages(blogName: string, options: FetchOptions): AsyncGenerator<TumblrPost[]> {
+    const { limit = 1000, includePrivate = false, checkpoint, resume = false } = options;
+    // Limits, checkpoints and the like aren't filters
+    const filtered = hasFilter(pickFilter(options));
+    let fetched = 0;
+    let matched = 0;
+    // Posts are newest first, so start just after --until
+    let before: number | undefined = options.until;
+    let state: CheckpointState | null = null;
+
+    // The matching posts of a page, up to the limit
+    const take = (page: TumblrPost[]): TumblrPost[] => {
+      const posts = (filtered ? page.filter(post => matchesFilter(post, options)) : page).slice(0, limit - matched);
+      matched += posts.length;
+      return posts;
+    };
 
-    while (totalFetched < limit) {
+    if (checkpoint) {
+      const optionsKey = checkpointOptionsKey(options);
+      const saved = await checkpoint.load();
+
+      if (resume && saved) {
+        if (saved.blogName !== blogName || saved.optionsKey !== optionsKey) {
+          throw new Error(
+            `The checkpoint in ${checkpoint.dir} was created for a different blog or different options. ` +
+            'Run again with --refresh to start over.'
+          );
+        }
+
+        state = saved;
+        // A checkpoint without pages has no cursor yet, so it starts where a fresh fetch would
+        before = saved.pages > 0 ? saved.before : options.until;
+        for await (const page of checkpoint.readPages()) {
+          if (matched >= limit) break;
+          fetched += page.length;
+          const posts = take(page);
+          if (posts.length > 0) yield posts;
+        }
+
+        if (saved.exhausted) {
+          return;
+        }
+      } else {
+        state = await checkpoint.start(blogName, optionsKey);
+      }
+    }
+
+    while (matched < limit) {
+      let response: TumblrResponse;
       try {
-        const response = await this.fetchPosts(blogName, {
-          limit: Math.min(20, limit - totalFetched), // Tumblr API limit is 20 per request
+        response = await this.fetchPosts(blogName, {
+          // Tumblr API limit is 20 per request; take full pages when some posts will be filtered out
+          limit: filtered ? 20 : Math.min(20, limit - matched),
           before,
           includePrivate,
+          tags: options.tags,
+          types: options.types,
         });
+      } catch (error) {
+        // Never end a partial fetch as if it were the whole blog
+        const hint = checkpoint
+          ? ` Progress is saved in ${checkpoint.dir}; run again with --resume to continue.`
+          : '';
+        if (error instanceof TumblrQuotaExceededError) {
+          error.message += ` Stopped after ${fetched} posts.${hint}`;
+          throw error;
+        }
+        throw new Error(`Error fetching posts after ${fetched} posts: ${error}.${hint}`);
+      }
+
+      await options.onResponse?.(response);
 
-        if (!response.response.posts || response.response.posts.length === 0) {
-          break;
+      const pagePosts = response.response.posts || [];
+      if (pagePosts.length === 0) {
+        if (checkpoint && state) {
+          state = await checkpoint.markExhausted(state);
         }
+        break;
+      }
+      fetched += pagePosts.length;
+
+      // Check if there are more posts
+      const nextBefore = response.response._links?.next?.query_params?.before;
+      if (checkpoint && state) {
+        state = await checkpoint.savePage(state, response, nextBefore);
+      }
 
-        posts.push(...response.response.posts);
-        totalFetched += response.response.posts.length;
+      const posts = take(pagePosts);
+      if (posts.length > 0) {
+        yield posts;
+      }
 
-        // Check if there are more posts
-        if (response.response._links?.next?.query_params?.before) {
-          before = response.response._links.next.query_params.before;
-        } else {
-          break;
+      // Everything further back is older than --since
+      const oldest = pagePosts[pagePosts.length - 1].timestamp;
+      if (options.since !== undefined && oldest < options.since) {
+        if (checkpoint && state) {
+          state = await checkpoint.markExhausted(state);
         }
+        break;
+      }
 
-        // Rate limiting - be respectful to Tumblr's API
-        await this.delay(1000);
+      if (!nextBefore) {
+        break;
+      }
+      before = nextBefore;
+    }
+  }
 
-      } catch (error) {
-        console.error(`Error fetching posts: ${error}`);
+  async fetchDrafts(blogName: string, options: FetchOptions = {}): Promise<TumblrPost[]> {
+    const posts: TumblrPost[] = [];
+    let beforeId: string | undefined;
+
+    // Drafts page by the id of the last draft seen
+    for (;;) {
+      const params: Record<string, string | boolean> = { npf: true };
+      if (beforeId) {
+        params.before_id = beforeId;
+      }
+
+      const response = await this.request<TumblrResponse>(`/blog/${blogName}/posts/draft`, params, true);
+      await options.onResponse?.(response);
+      const page = response.response.posts || [];
+      if (page.length === 0) {
         break;
       }
+
+      posts.push(...page);
+      beforeId = page[page.length - 1].id;
     }
 
-    return posts;
+    return posts.filter(post => matchesFilter(post, options));
+  }
+
+  async fetchQueue(blogName: string, options: FetchOptions = {}): Promise<TumblrPost[]> {
+    const posts: TumblrPost[] = [];
+
+    for (;;) {
+      const response = await this.request<TumblrResponse>(`/blog/${blogName}/posts/queue`, {
+        npf: true,
+        limit: 20,
+        offset: posts.length,
+      }, true);
+      await options.onResponse?.(response);
+      const page = response.response.posts || [];
+
+      posts.push(...page);
+      if (page.length < 20) {
+        break;
+      }
+    }
+
+    return posts.filter(post => matchesFilter(post, options));
   }
 
   private async fetchPosts(blogName: string, options: FetchOptions = {}): Promise<TumblrResponse> {
     const { limit = 20, before, includePrivate = false } = options;
     
-    const params: Record<string, any> = {
+    const params: RequestParams = {
       api_key: this.apiKey,
       limit,
+      // Return posts as NPF content blocks rather than legacy HTML
+      npf: true,
     };
 
     if (before) {
       params.before = before;
     }
 
-    if (includePrivate) {
-      // Note: Private posts require OAuth tokens
-      params.filter = 'raw';
+    // Tag and type filters Tumblr can apply itself; the rest is filtered after fetching
+    Object.assign(params, serverSideFilterParams(options));
+
+    // Private posts are only returned to the blog owner, so sign the request
+    const response = await this.request<TumblrResponse>(`/blog/${blogName}/posts`, params, includePrivate);
+
+    if (!includePrivate) {
+      response.response.posts = (response.response.posts || []).filter(post => post.state !== 'private');
     }
 
-    const response = await this.client.get(`/blog/${blogName}/posts`, { params });
-    
-    if (response.data.meta.status !== 200) {
-      throw new Error(`Tumblr API error: ${response.data.meta.msg}`);
+    return response;
+  }
+
+  /**
+   * GET an API path, retrying network errors, 5xx and 429 responses with
+   * exponential backoff. Requests are paced to stay within Tumblr's hourly
+   * quota, and an exhausted daily quota fails fast with TumblrQuotaExceededError.
+   */
+  private async request<T extends { meta: { status: number; msg: string } }>(
+    url: string,
+    params: RequestParams,
+    authenticated: boolean = false,
+  ): Promise<T> {
+    const options = this.retryOptions;
+
+    if (authenticated && !this.oauth) {
+      throw new Error(
+        'OAuth credentials are required for private posts, drafts and the queue. ' +
+        'Set TUMBLR_CONSUMER_SECRET, TUMBLR_ACCESS_TOKEN and TUMBLR_ACCESS_TOKEN_SECRET in your .env file.'
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.paceRequest();
+
+      try {
+        // Each attempt gets a fresh nonce and timestamp
+        const headers = authenticated && this.oauth
+          ? { Authorization: buildAuthorizationHeader('GET', `${API_BASE_URL}${url}`, params, this.oauth) }
+          : undefined;
+        const response = await this.client.get<T>(url, { params, headers });
+        this.rateLimit.update(response.headers);
+
+        if (response.data.meta.status !== 200) {
+          throw new Error(`Tumblr API error: ${response.data.meta.msg}`);
+        }
+
+        return response.data;
+      } catch (error) {
+        if (!isAxiosError(error)) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        if (error.response) {
+          this.rateLimit.update(error.response.headers);
+        }
+
+        const retryable = status === undefined || status === 429 || status >= 500;
+        if (!retryable || attempt >= options.maxRetries) {
+          const detail = error.response?.data?.meta?.msg || error.message;
+          throw new Error(`Tumblr API error${status ? ` ${status}` : ''}: ${detail}`);
+        }
+
+        let wait = backoffDelay(attempt, options);
+        if (status === 429) {
+          // Retry-After wins, then the quota reset time, then plain backoff
+          const quotaWait = this.rateLimit.waitAfterThrottle();
+          wait = parseRetryAfter(error.response?.headers['retry-after']) ?? quotaWait ?? wait;
+          if (wait > options.maxQuotaWaitMs) {
+            throw new TumblrQuotaExceededError('hourly', new Date(Date.now() + wait));
+          }
+        }
+
+        await this.delay(wait);
+      }
     }
+  }
 
-    return response.data;
+  // Wait long enough between requests to respect Tumblr's quotas
+  private async paceRequest(): Promise<void> {
+    const interval = this.rateLimit.waitBeforeRequest(this.retryOptions);
+    const elapsed = Date.now() - this.lastRequestAt;
+    if (elapsed < interval) {
+      await this.delay(interval - elapsed);
+    }
+    this.lastRequestAt = Date.now();
   }
 
   private delay(ms: number): Promise<void> {
@@ -201,14 +670,10 @@ export class TumblrAPI {
   }
 
   async getBlogInfo(blogName: string): Promise<TumblrResponse['response']['blog']> {
-    const response = await this.client.get(`/blog/${blogName}/info`, {
-      params: { api_key: this.apiKey },
+    const response = await this.request<TumblrResponse>(`/blog/${blogName}/info`, {
+      api_key: this.apiKey,
     });
 
-    if (response.data.meta.status !== 200) {
-      throw new Error(`Tumblr API error: ${response.data.meta.msg}`);
-    }
-
-    return response.data.response.blog;
+    return response.response.blog;
   }
 } 
\ No newline at end of file
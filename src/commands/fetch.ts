@@ -0,0 +1,128 @@
+import { Command, Flags, Args } from '@oclif/core';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { postType } from '../api/filters';
+import { TumblrAPI, TumblrPost, TumblrResponse } from '../api/tumblr';
+import { getOAuthCredentials, loadConfig } from '../utils/config';
+import { describeFilter, filterFlags, filterOptions } from '../utils/flags';
+
+export default class Fetch extends Command {
+  static description = 'Fetch posts from Tumblr without migrating them, optionally saving the raw API responses';
+
+  static examples = [
+    '$ ghostify fetch myblog.tumblr.com',
+    '$ ghostify fetch myblog.tumblr.com --save-raw ./myblog-raw',
+    '$ ghostify fetch myblog.tumblr.com --type photo --since 2020-01-01',
+    '$ ghostify migrate myblog.tumblr.com --from-json ./myblog-raw',
+  ];
+
+  static flags = {
+    'save-raw': Flags.string({
+      description: 'Directory to write every API response to, for use with `migrate --from-json`',
+    }),
+    limit: Flags.integer({
+      char: 'l',
+      description: 'Maximum number of posts to fetch',
+      default: 1000,
+    }),
+    'include-private': Flags.boolean({
+      description: 'Include private posts (requires OAuth tokens)',
+      default: false,
+    }),
+    'include-drafts': Flags.boolean({
+      description: 'Include drafts (requires OAuth tokens)',
+      default: false,
+    }),
+    'include-queue': Flags.boolean({
+      description: 'Include queued posts (requires OAuth tokens)',
+      default: false,
+    }),
+    ...filterFlags,
+  };
+
+  static args = {
+    blog: Args.string({
+      description: 'Tumblr blog name (e.g., myblog.tumblr.com) - optional if TUMBLR_BLOG_NAME is set in .env',
+      required: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Fetch);
+
+    try {
+      const config = await loadConfig();
+      const blogName = args.blog || config.blogName;
+      if (!blogName) {
+        this.error(chalk.red('❌ No blog name specified. Pass it as an argument or set TUMBLR_BLOG_NAME in your .env file.'));
+      }
+
+      const oauth = getOAuthCredentials(config);
+      if (!oauth && (flags['include-private'] || flags['include-drafts'] || flags['include-queue'])) {
+        this.error(chalk.red(
+          '❌ --include-private, --include-drafts and --include-queue need OAuth credentials. ' +
+          'Set TUMBLR_CONSUMER_SECRET, TUMBLR_ACCESS_TOKEN and TUMBLR_ACCESS_TOKEN_SECRET in your .env file.'
+        ));
+      }
+
+      const rawDir = flags['save-raw'];
+      if (rawDir && (await fs.pathExists(rawDir)) && (await fs.readdir(rawDir)).length > 0) {
+        this.error(chalk.red(`❌ ${rawDir} is not empty. Choose a new directory for the saved responses.`));
+      }
+
+      const api = new TumblrAPI(config.apiKey, { oauth });
+      let pages = 0;
+
+      const filter = filterOptions(flags);
+      const filterDescription = describeFilter(filter);
+
+      this.log(chalk.blue(`📥 Fetching posts from ${blogName}...`));
+      if (filterDescription) {
+        this.log(chalk.gray(`🔎 Filter: ${filterDescription}`));
+      }
+      const posts = await api.fetchAllPosts(blogName, {
+        limit: flags.limit,
+        includePrivate: flags['include-private'],
+        includeDrafts: flags['include-drafts'],
+        includeQueue: flags['include-queue'],
+        ...filter,
+        onResponse: rawDir
+          ? async (response: TumblrResponse) => {
+            pages++;
+            await fs.outputJson(path.join(rawDir, `${String(pages).padStart(6, '0')}.json`), response, { spaces: 2 });
+          }
+          : undefined,
+      });
+
+      this.log(chalk.green(`✅ Fetched ${posts.length} posts`));
+      this.logCounts('Types', posts, post => postType(post));
+      this.logCounts('States', posts, post => post.state);
+
+      const quota = api.describeRateLimit();
+      if (quota) {
+        this.log(chalk.gray(`⏱️  Tumblr quota: ${quota}`));
+      }
+
+      if (rawDir) {
+        this.log(chalk.green(`💾 Saved ${pages} responses to ${rawDir}`));
+        this.log(chalk.gray(`   Migrate them with: ghostify migrate ${blogName} --from-json ${rawDir}`));
+      }
+    } catch (error) {
+      this.error(chalk.red(`❌ Fetch failed: ${error}`));
+    }
+  }
+
+  private logCounts(label: string, posts: TumblrPost[], key: (post: TumblrPost) => string): void {
+    const counts = new Map<string, number>();
+    for (const post of posts) {
+      counts.set(key(post), (counts.get(key(post)) || 0) + 1);
+    }
+
+    const summary = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, count]) => `${name} ${count}`)
+      .join(', ');
+    this.log(chalk.gray(`   ${label}: ${summary || 'none'}`));
+  }
+}
@@ -1,11 +1,56 @@
-import { Command, Flags, Args } from '@oclif/core';
+import { Command, Flags, Args, Interfaces } from '@oclif/core';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
-import { TumblrAPI } from '../api/tumblr';
-import { GhostExporter } from '../export/jsonWriter';
-import { PostTransformer } from '../transform/formatPost';
-import { loadConfig } from '../utils/config';
+import { checkpointOptionsKey, FetchCheckpoint } from '../api/checkpoint';
+import { GhostAdminAPI } from '../api/ghostAdmin';
+import { FetchOptions, TumblrAPI, TumblrPost } from '../api/tumblr';
+import { GhostPublisher } from '../export/ghostPublisher';
+import { ExportedFile, ExportRelations, GhostExporter } from '../export/jsonWriter';
+import { planRedirects, REDIRECT_FORMATS, RedirectFormat, RedirectPlan, writeRedirects } from '../export/redirects';
+import { buildReport, writeReport } from '../export/report';
+import { writeImportZip } from '../export/zipWriter';
+import { MediaStore } from '../media/mediaStore';
+import { JsonFileSource } from '../sources/jsonFiles';
+import { PostSource, sourcePages } from '../sources/postSource';
+import { TumblrArchive } from '../sources/tumblrArchive';
+import { CrossLinkRewriter, LinkedPost, UnresolvedLink } from '../transform/crossLinks';
+import { AuthorConfig, ContentFormat, GhostPost, PostTransformer, PrivatePostMode } from '../transform/formatPost';
+import { PostOutcome } from '../transform/outcome';
+import { ReblogMode } from '../transform/reblogs';
+import { authorForPost, BlogConfig, loadBlogsConfig } from '../utils/blogsConfig';
+import { Config, getOAuthCredentials, loadConfig } from '../utils/config';
+import { mapWithConcurrency, readAhead } from '../utils/concurrency';
+import { describeFilter, filterFlags, filterOptions, presentationFlags, presentationOptions } from '../utils/flags';
+import { sanitizeBlogName } from '../utils/paths';
+import { ProgressTracker } from '../utils/progress';
+import { loadExistingSlugs, SlugRegistry } from '../utils/slug';
+import { JsonLinesSpool } from '../utils/spool';
+
+type MigrateFlags = Interfaces.InferredFlags<typeof Migrate.flags>;
+
+// What later passes need to know about a post once it has been spooled
+interface MigratedEntry {
+  blog: BlogConfig;
+  source: LinkedPost['source'];
+  post: Pick<GhostPost, 'id' | 'slug' | 'status' | 'created_at'>;
+  tags: string[];
+  author: AuthorConfig;
+  outcome: PostOutcome;
+  // Media files the post points at, relative to the media folder
+  media: string[];
+}
+
+// A blog being migrated and where its posts come from
+interface BlogRun {
+  blog: BlogConfig;
+  source: PostSource;
+}
+
+interface LinkStats {
+  rewritten: number;
+  unresolved: UnresolvedLink[];
+}
 
 export default class Migrate extends Command {
   static description = 'Migrate Tumblr blog posts to Ghost format';
@@ -15,6 +60,22 @@ export default class Migrate extends Command {
     '$ ghostify migrate myblog.tumblr.com',
     '$ ghostify migrate --output ./custom-export.json',
     '$ ghostify migrate myblog.tumblr.com --limit 100 --include-private',
+    '$ ghostify migrate myblog.tumblr.com --include-drafts --include-queue',
+    '$ ghostify migrate myblog.tumblr.com --include-private --private-as members',
+    '$ ghostify migrate myblog.tumblr.com --format lexical',
+    '$ ghostify migrate myblog.tumblr.com --media',
+    '$ ghostify migrate myblog.tumblr.com --media --video-audio',
+    '$ ghostify migrate myblog.tumblr.com --feature-image move',
+    '$ ghostify migrate myblog.tumblr.com --resume',
+    '$ ghostify migrate myblog.tumblr.com --dry-run',
+    '$ ghostify migrate myblog.tumblr.com --type text --tag essay --since 2019-01-01 --until 2022-12-31',
+    '$ ghostify migrate myblog.tumblr.com --original-only --min-notes 10',
+    '$ ghostify migrate myblog.tumblr.com --reblogs commentary',
+    '$ ghostify migrate myblog.tumblr.com --title-from summary --title-from date --excerpt-from summary --hide-title photo',
+    '$ ghostify migrate --archive ./myblog-export.zip',
+    '$ ghostify migrate myblog.tumblr.com --from-json ./myblog-raw',
+    '$ ghostify migrate myblog.tumblr.com --target ghost-api --media',
+    '$ ghostify migrate --blogs ./blogs.json --output ./combined.json',
   ];
 
   static flags = {
@@ -31,6 +92,110 @@ export default class Migrate extends Command {
       description: 'Include private posts (requires OAuth tokens)',
       default: false,
     }),
+    'include-drafts': Flags.boolean({
+      description: 'Include drafts, imported as Ghost drafts (requires OAuth tokens)',
+      default: false,
+    }),
+    'include-queue': Flags.boolean({
+      description: 'Include queued posts, imported as scheduled posts (requires OAuth tokens)',
+      default: false,
+    }),
+    'private-as': Flags.string({
+      description: 'How to import private posts: as drafts, or published for members or paid members only',
+      options: ['draft', 'members', 'paid'],
+      default: 'draft',
+    }),
+    reblogs: Flags.string({
+      description: 'How to migrate reblogs: quote the reblogged posts, keep only your commentary, or skip them',
+      options: ['trail', 'commentary', 'skip'],
+      default: 'trail',
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Editor format for post content',
+      options: ['mobiledoc', 'lexical'],
+      default: 'mobiledoc',
+    }),
+    ...presentationFlags,
+    media: Flags.boolean({
+      description: 'Download images and bundle them with the JSON into a Ghost import zip',
+      default: false,
+    }),
+    'video-audio': Flags.boolean({
+      description: 'With --media, also download video and audio uploaded to Tumblr instead of linking to Tumblr',
+      default: false,
+    }),
+    'media-dir': Flags.string({
+      description: 'Directory for downloaded images (defaults to blog-name-media next to the output)',
+    }),
+    resume: Flags.boolean({
+      description: 'Continue an interrupted fetch from the last saved page',
+      default: false,
+      exclusive: ['refresh'],
+    }),
+    refresh: Flags.boolean({
+      description: 'Ignore any cached pages and fetch everything again',
+      default: false,
+    }),
+    'cache-dir': Flags.string({
+      description: 'Directory for fetch checkpoints and cached pages',
+      default: '.ghostify-cache',
+    }),
+    archive: Flags.string({
+      char: 'a',
+      description: 'Read posts from a Tumblr "Export blog" archive (zip or extracted folder) instead of the API',
+      // Exports don't record note counts
+      exclusive: ['resume', 'refresh', 'include-drafts', 'include-queue', 'from-json', 'min-notes', 'blogs'],
+    }),
+    'from-json': Flags.string({
+      description: 'Read posts from saved Tumblr API responses (files or directories, e.g. from `ghostify fetch --save-raw`) instead of the API',
+      multiple: true,
+      exclusive: ['resume', 'refresh', 'blogs'],
+    }),
+    blogs: Flags.string({
+      description: 'Migrate several blogs into one export, as listed with their authors and tags in a JSON file',
+    }),
+    ...filterFlags,
+    'existing-slugs': Flags.string({
+      description: 'Slugs already used on the Ghost site: a Ghost JSON export or a text file with one slug per line',
+    }),
+    redirects: Flags.string({
+      description: 'Redirect files to write for old Tumblr URLs (Ghost yaml/json, nginx, Netlify), or none',
+      options: [...REDIRECT_FORMATS, 'none'],
+      multiple: true,
+      default: ['yaml'],
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Fetch and transform posts and write the report, but no export, media or redirects',
+      default: false,
+    }),
+    report: Flags.boolean({
+      description: 'Write a JSON and Markdown report of every post next to the export',
+      default: false,
+    }),
+    target: Flags.string({
+      description: 'Where posts go: a Ghost import file, or straight to a Ghost site through the Admin API',
+      options: ['json', 'ghost-api'],
+      default: 'json',
+    }),
+    'batch-size': Flags.integer({
+      description: 'Posts sent to the Ghost Admin API at once (with --target ghost-api)',
+      default: 10,
+      min: 1,
+    }),
+    'split-posts': Flags.integer({
+      description: 'Split the Ghost JSON into files of at most this many posts (blog-1.json, blog-2.json, ...)',
+      min: 1,
+    }),
+    'split-size': Flags.integer({
+      description: 'Split the Ghost JSON into files of at most this many megabytes',
+      min: 1,
+    }),
+    concurrency: Flags.integer({
+      description: 'Posts whose images are downloaded at the same time (with --media)',
+      default: 4,
+      min: 1,
+    }),
     'create-dirs': Flags.boolean({
       description: 'Create output directories if they don\'t exist',
       default: true,
@@ -44,81 +209,528 @@ export default class Migrate extends Command {
     }),
   };
 
+  private api?: TumblrAPI;
+
   async run(): Promise<void> {
     const { args, flags } = await this.parse(Migrate);
 
     try {
       // Load configuration first
-      const config = await loadConfig();
+      // With --blogs, each blog says for itself whether it needs the API
+      const offline = !!flags.archive || !!flags['from-json'] || !!flags.blogs;
+      const config = await loadConfig({ requireApiKey: !offline });
       this.log(chalk.green('✅ Configuration loaded'));
-      this.log(chalk.gray(`👤 Author: ${config.author.name} (${config.author.email})`));
-
-      // Determine blog name: command line argument takes precedence over config
-      const blogName = args.blog || config.blogName;
-      
-      if (!blogName) {
-        this.error(chalk.red('❌ No blog name specified. Please either:'));
-        this.error(chalk.red('   1. Provide the blog name as an argument: ghostify migrate myblog.tumblr.com'));
-        this.error(chalk.red('   2. Set TUMBLR_BLOG_NAME in your .env file'));
-        process.exit(1);
+      if (!flags.blogs) {
+        this.log(chalk.gray(`👤 Author: ${config.author.name} (${config.author.email})`));
+      }
+
+      if (flags.target === 'ghost-api' && (!config.ghostAdminUrl || !config.ghostAdminKey)) {
+        this.error(chalk.red('❌ --target ghost-api needs GHOST_ADMIN_API_URL and GHOST_ADMIN_API_KEY in your .env file.'));
       }
+      if (flags.blogs && args.blog) {
+        this.error(chalk.red('❌ Give either a blog name or --blogs, not both.'));
+      }
+
+      const runs = flags.blogs
+        ? await this.configuredBlogs(flags.blogs, config, flags)
+        : [await this.singleBlog(args.blog, config, flags)];
+      const blogNames = runs.map(run => run.blog.name);
 
-      // Generate default output filename based on blog name
-      const defaultOutput = `./${this.sanitizeBlogName(blogName)}.json`;
+      // Generate default output filename based on blog name, or the blogs file for several blogs
+      const runName = flags.blogs ? path.parse(flags.blogs).name : blogNames[0];
+      const defaultOutput = `./${sanitizeBlogName(runName)}.json`;
       const outputPath = flags.output || defaultOutput;
 
       this.log(chalk.blue('🚀 Starting Tumblr to Ghost migration...'));
-      this.log(chalk.gray(`📝 Blog: ${blogName}`));
+      this.log(chalk.gray(`📝 ${runs.length > 1 ? 'Blogs' : 'Blog'}: ${blogNames.join(', ')}`));
       this.log(chalk.gray(`📁 Output: ${outputPath}`));
-      this.log(chalk.gray(`📊 Limit: ${flags.limit} posts`));
+      this.log(chalk.gray(`📊 Limit: ${flags.limit} posts${runs.length > 1 ? ' per blog' : ''}`));
+      const filter = filterOptions(flags);
+      if (flags.reblogs === 'skip') {
+        filter.originalOnly = true;
+      }
+      const filterDescription = describeFilter(filter);
+      if (filterDescription) {
+        this.log(chalk.gray(`🔎 Filter: ${filterDescription}`));
+      }
+
+      // Local media are only taken from the archives' own folders
+      const localRoots = (await Promise.all(runs.map(run => run.source.mediaRoot?.())))
+        .filter((root): root is string => !!root);
 
       // Initialize components
-      const api = new TumblrAPI(config.apiKey);
-      const transformer = new PostTransformer(config.author);
+      const transformer = new PostTransformer(config.author, {
+        contentFormat: flags.format as ContentFormat,
+        privatePosts: flags['private-as'] as PrivatePostMode,
+        // Skipped reblogs are filtered out before they reach the transformer
+        reblogs: (flags.reblogs === 'skip' ? 'trail' : flags.reblogs) as ReblogMode,
+        sanitize: { localMediaRoots: localRoots },
+        ...presentationOptions(flags),
+      });
       const exporter = new GhostExporter(config.author);
-
-      // Fetch posts from Tumblr
-      this.log(chalk.blue('📥 Fetching posts from Tumblr...'));
-      const posts = await api.fetchAllPosts(blogName, {
+      const fetchOptions: FetchOptions = {
         limit: flags.limit,
         includePrivate: flags['include-private'],
-      });
-      this.log(chalk.green(`✅ Fetched ${posts.length} posts`));
+        includeDrafts: flags['include-drafts'],
+        includeQueue: flags['include-queue'],
+        ...filter,
+      };
 
-      // Transform posts to Ghost format
-      this.log(chalk.blue('🔄 Transforming posts to Ghost format...'));
-      const ghostPosts = posts.map(post => transformer.transform(post));
-      this.log(chalk.green(`✅ Transformed ${ghostPosts.length} posts`));
-
-      // Create output directory if needed
-      if (flags['create-dirs']) {
-        const outputDir = path.dirname(outputPath);
-        await fs.ensureDir(outputDir);
+      // Download media and point posts at the local copies
+      // Archive media are local files, so they always go into the import zip
+      let mediaDir: string | undefined;
+      let store: MediaStore | undefined;
+      const archives = runs.some(run => run.source instanceof TumblrArchive);
+      if (!flags['dry-run'] && (flags.media || archives)) {
+        mediaDir = flags['media-dir'] || path.join(path.dirname(outputPath), `${path.parse(outputPath).name}-media`);
+        store = new MediaStore({ rootDir: mediaDir, videoAudio: flags['video-audio'] || archives, localRoots });
+        this.log(chalk.gray(`🖼️  Downloading media to ${mediaDir}`));
       }
 
-      // Export to Ghost JSON format
-      this.log(chalk.blue('📤 Exporting to Ghost JSON...'));
-      await exporter.exportToFile(ghostPosts, outputPath);
-      this.log(chalk.green(`✅ Exported to ${outputPath}`));
+      // Transformed posts wait on disk until slugs and links can be settled across all blogs
+      const spool = new JsonLinesSpool<GhostPost>(path.join(flags['cache-dir'], 'spool', `${sanitizeBlogName(runName)}.jsonl`));
+      try {
+        let entries: MigratedEntry[] = [];
+        for (const { blog, source } of runs) {
+          const { pages, total } = source instanceof TumblrAPI
+            ? await this.apiPages(source, blog.name, flags, fetchOptions)
+            : this.sourcePages(source, blog.name, fetchOptions);
+
+          const progress = new ProgressTracker(total);
+          const blogEntries = await this.transformPages(pages, transformer, spool, progress, {
+            blog,
+            store,
+            concurrency: flags.concurrency,
+          });
+          entries = entries.concat(blogEntries);
+          const from = runs.length > 1 ? ` from ${blog.name}` : '';
+          this.log(chalk.green(`✅ Transformed ${blogEntries.length} posts${from} (${progress.describe()})`));
+          if (source instanceof TumblrAPI && source.describeRateLimit()) {
+            this.log(chalk.gray(`⏱️  Tumblr quota: ${source.describeRateLimit()}`));
+          }
+        }
+        if (store) {
+          this.log(chalk.green(`✅ Stored ${store.downloadedCount} images`));
+          for (const [url, reason] of store.failedDownloads) {
+            this.warn(chalk.yellow(`⚠️  Could not download ${url}: ${reason}`));
+          }
+        }
+
+        // Slugs must be unique within the export, across blogs, and on the Ghost site
+        const existingSlugs = flags['existing-slugs'] ? await loadExistingSlugs(flags['existing-slugs']) : [];
+        const uniquePosts = transformer.assignUniqueSlugs(entries.map(entry => entry.post), new SlugRegistry(existingSlugs));
+        const slugs = new Map<string, string>();
+        uniquePosts.forEach((post, index) => {
+          if (post.slug !== entries[index].post.slug) {
+            slugs.set(post.id, post.slug);
+            entries[index].post = post;
+          }
+        });
+        if (slugs.size > 0) {
+          this.log(chalk.gray(`🔤 Renamed ${slugs.size} duplicate slugs`));
+        }
+
+        // Blog tags come first, so a blog's tag is its posts' primary tag
+        const relations: Required<ExportRelations> = { tagsByPost: {}, authorsByPost: {}, mediaByPost: {} };
+        for (const entry of entries) {
+          relations.tagsByPost[entry.post.id] = [...entry.blog.tags, ...entry.tags];
+          relations.authorsByPost[entry.post.id] = entry.author;
+          relations.mediaByPost[entry.post.id] = entry.media;
+        }
+
+        // Point links between posts at their Ghost URLs as the posts are read back
+        const links: LinkStats = { rewritten: 0, unresolved: [] };
+        const crossLinks = new CrossLinkRewriter(entries, blogNames);
+        const ghostPosts = this.finalPosts(spool, slugs, crossLinks, transformer, links);
+
+        const reportBase = outputPath.replace(/\.json$/i, '');
 
-      this.log(chalk.green('🎉 Migration completed successfully!'));
-      this.log(chalk.gray(`📊 Summary: ${posts.length} posts migrated`));
-      this.log(chalk.gray(`👤 Author: ${config.author.name}`));
-      this.log(chalk.gray(`📁 File: ${path.resolve(outputPath)}`));
+        if (flags['dry-run']) {
+          // Run the export's validation so problems still surface
+          await exporter.validatePostStream(ghostPosts);
+          this.logLinks(links);
+          const outcomes = this.finalOutcomes(entries, links.unresolved);
+          const files = await writeReport(reportBase, buildReport(blogNames.join(', '), outcomes, true));
+          this.log(chalk.green(`✅ Dry run complete. Review ${files.join(' and ')} before migrating.`));
+          this.logOutcomeSummary(outcomes);
+          return;
+        }
 
+        // Create output directory if needed
+        if (flags['create-dirs']) {
+          const outputDir = path.dirname(outputPath);
+          await fs.ensureDir(outputDir);
+        }
+
+        let exportedFiles: ExportedFile[] = [];
+        if (flags.target === 'ghost-api') {
+          await this.publishToGhost(config, ghostPosts, entries.length, relations, {
+            stateFile: `${reportBase}-ghost-ids.json`,
+            batchSize: flags['batch-size'],
+            mediaDir,
+          });
+        } else {
+          // Export to Ghost JSON format
+          this.log(chalk.blue('📤 Exporting to Ghost JSON...'));
+          exportedFiles = await exporter.exportToFiles(ghostPosts, outputPath, relations, {
+            maxPosts: flags['split-posts'],
+            maxBytes: flags['split-size'] === undefined ? undefined : flags['split-size'] * 1024 * 1024,
+          });
+          if (exportedFiles.length > 1) {
+            this.log(chalk.green(`✅ Exported to ${exportedFiles.length} files:`));
+            for (const file of exportedFiles) {
+              this.log(chalk.gray(`   ${file.path} (${file.posts} posts, ${(file.bytes / 1024 / 1024).toFixed(1)} MB)`));
+            }
+          } else {
+            this.log(chalk.green(`✅ Exported to ${outputPath}`));
+          }
+        }
+        this.logLinks(links);
+        const outcomes = this.finalOutcomes(entries, links.unresolved);
+
+        if (mediaDir && flags.target === 'json') {
+          this.log(chalk.blue('📦 Bundling JSON and media into an import zip...'));
+          // Each part of a split export carries only the media its own posts use
+          const split = exportedFiles.length > 1;
+          for (const file of exportedFiles) {
+            const zipPath = file.path.replace(/\.json$/i, '') + '.zip';
+            await writeImportZip(zipPath, file.path, mediaDir, split ? file.media : undefined);
+            this.log(chalk.green(`✅ Import bundle written to ${zipPath}`));
+          }
+        }
+
+        const redirectFormats = flags.redirects.filter(format => format !== 'none') as RedirectFormat[];
+        if (redirectFormats.length > 0) {
+          // Each blog has its own domain, so each gets its own redirects
+          for (const { blog } of runs) {
+            const plan = planRedirects(entries.filter(entry => entry.blog === blog));
+            const base = outputPath.replace(/\.json$/i, '') + (runs.length > 1 ? `-${sanitizeBlogName(blog.name)}` : '');
+            const files = await writeRedirects(base, plan.redirects, redirectFormats);
+            this.log(chalk.green(`✅ Wrote ${plan.redirects.length} redirects to ${files.join(', ')}`));
+            this.reportRedirectProblems(plan);
+          }
+        }
+
+        if (flags.report) {
+          const files = await writeReport(reportBase, buildReport(blogNames.join(', '), outcomes, false));
+          this.log(chalk.green(`✅ Report written to ${files.join(' and ')}`));
+        }
+
+        this.log(chalk.green('🎉 Migration completed successfully!'));
+        this.log(chalk.gray(`📊 Summary: ${entries.length} posts migrated`));
+        this.logOutcomeSummary(outcomes);
+        if (flags.blogs) {
+          this.log(chalk.gray(`👥 Authors: ${Array.from(new Set(entries.map(entry => entry.author.name))).join(', ')}`));
+        } else {
+          this.log(chalk.gray(`👤 Author: ${config.author.name}`));
+        }
+        for (const file of exportedFiles) {
+          this.log(chalk.gray(`📁 File: ${path.resolve(file.path)}`));
+        }
+      } finally {
+        await spool.remove();
+      }
     } catch (error) {
       this.error(chalk.red(`❌ Migration failed: ${error}`));
       process.exit(1);
     }
   }
 
-  private sanitizeBlogName(blogName: string): string {
-    // Remove .tumblr.com suffix and sanitize for filename
-    return blogName
-      .replace(/\.tumblr\.com$/i, '') // Remove .tumblr.com
-      .replace(/[^a-zA-Z0-9-_]/g, '-') // Replace invalid chars with hyphens
-      .replace(/-+/g, '-') // Replace multiple hyphens with single
-      .replace(/^-|-$/g, '') // Remove leading/trailing hyphens
-      .toLowerCase();
+  private async singleBlog(blogArg: string | undefined, config: Config, flags: MigrateFlags): Promise<BlogRun> {
+    const source = this.createSource(config, flags);
+
+    // Determine blog name: command line argument takes precedence over config
+    const blogName = blogArg || config.blogName || (await source.blogName?.());
+
+    if (!blogName) {
+      this.error(chalk.red('❌ No blog name specified. Please either:'));
+      this.error(chalk.red('   1. Provide the blog name as an argument: ghostify migrate myblog.tumblr.com'));
+      this.error(chalk.red('   2. Set TUMBLR_BLOG_NAME in your .env file'));
+      process.exit(1);
+    }
+
+    return { blog: { name: blogName, author: config.author, authors: {}, tags: [] }, source };
+  }
+
+  /**
+   * The blogs listed in a --blogs file, each read from its own archive or
+   * saved responses, or from the API.
+   */
+  private async configuredBlogs(filePath: string, config: Config, flags: MigrateFlags): Promise<BlogRun[]> {
+    const blogs = await loadBlogsConfig(filePath, config.author);
+
+    return blogs.map(blog => {
+      const source = this.createSource(config, { ...flags, archive: blog.archive, 'from-json': blog.fromJson });
+      if (source instanceof TumblrAPI && !config.apiKey) {
+        throw new Error(`TUMBLR_API_KEY environment variable is required for ${blog.name}, which has no archive or fromJson.`);
+      }
+
+      const members = Object.keys(blog.authors).length;
+      this.log(chalk.gray(`👤 ${blog.name}: ${blog.author.name} (${blog.author.email})${members > 0 ? `, ${members} members mapped` : ''}`));
+      return { blog, source };
+    });
+  }
+
+  private createSource(config: Config, flags: MigrateFlags): PostSource {
+    if (flags.archive) {
+      const extractDir = path.join(flags['cache-dir'], 'archives', path.parse(flags.archive).name);
+      return new TumblrArchive(flags.archive, { extractDir });
+    }
+
+    if (flags['from-json']) {
+      return new JsonFileSource(flags['from-json']);
+    }
+
+    const oauth = getOAuthCredentials(config);
+    if (!oauth && (flags['include-private'] || flags['include-drafts'] || flags['include-queue'])) {
+      this.error(chalk.red(
+        '❌ --include-private, --include-drafts and --include-queue need OAuth credentials. ' +
+        'Set TUMBLR_CONSUMER_SECRET, TUMBLR_ACCESS_TOKEN and TUMBLR_ACCESS_TOKEN_SECRET in your .env file.'
+      ));
+    }
+
+    // Blogs share one client, so they share its rate limiting
+    this.api = this.api || new TumblrAPI(config.apiKey, { oauth });
+    return this.api;
+  }
+
+  private async apiPages(
+    api: TumblrAPI,
+    blogName: string,
+    flags: MigrateFlags,
+    fetchOptions: FetchOptions,
+  ): Promise<{ pages: AsyncIterable<TumblrPost[]>; total?: number }> {
+    // Fetch posts from Tumblr, checkpointing each page
+    const checkpoint = new FetchCheckpoint(path.join(flags['cache-dir'], sanitizeBlogName(blogName)));
+    const resume = await this.shouldResume(checkpoint, blogName, checkpointOptionsKey(fetchOptions), flags);
+
+    // The blog's post count gives progress output an ETA; it's not worth failing over
+    let total: number | undefined;
+    try {
+      total = Math.min(flags.limit, (await api.getBlogInfo(blogName)).total_posts);
+    } catch {
+      total = undefined;
+    }
+
+    this.log(chalk.blue(resume ? '📥 Resuming fetch from checkpoint...' : '📥 Fetching posts from Tumblr...'));
+    return { pages: api.iteratePages(blogName, { ...fetchOptions, checkpoint, resume }), total };
+  }
+
+  private sourcePages(
+    source: PostSource,
+    blogName: string,
+    fetchOptions: FetchOptions,
+  ): { pages: AsyncIterable<TumblrPost[]>; total?: number } {
+    this.log(chalk.blue(`📦 Reading posts from ${source.name}...`));
+    return { pages: sourcePages(source, blogName, fetchOptions) };
+  }
+
+  /**
+   * Transform posts a page at a time, downloading their images if asked
+   * to, and append them to the spool. Only what later passes need about
+   * each post is kept in memory.
+   */
+  private async transformPages(
+    pages: AsyncIterable<TumblrPost[]>,
+    transformer: PostTransformer,
+    spool: JsonLinesSpool<GhostPost>,
+    progress: ProgressTracker,
+    options: { blog: BlogConfig; store?: MediaStore; concurrency: number },
+  ): Promise<MigratedEntry[]> {
+    const entries: MigratedEntry[] = [];
+
+    // The next page is fetched while this one is being processed
+    for await (const page of readAhead(pages)) {
+      const results = await mapWithConcurrency(page, options.concurrency, async post => {
+        const result = transformer.transformWithOutcome(post);
+        if (!options.store) {
+          return { ...result, media: [] };
+        }
+
+        const localized = await options.store.localizePost(
+          result.post.html || '',
+          result.post.feature_image,
+          new Date(post.timestamp * 1000),
+        );
+        return {
+          ...result,
+          post: { ...transformer.withHtml(result.post, localized.html), feature_image: localized.featureImage },
+          media: localized.files,
+        };
+      });
+
+      for (const [index, { post, outcome, media }] of results.entries()) {
+        const source = page[index];
+        await spool.append(post);
+        entries.push({
+          blog: options.blog,
+          source: {
+            id: source.id,
+            slug: source.slug,
+            short_url: source.short_url,
+            post_url: source.post_url,
+            blog_name: source.blog_name,
+          },
+          post: { id: post.id, slug: post.slug, status: post.status, created_at: post.created_at },
+          tags: transformer.extractTags(source),
+          author: authorForPost(options.blog, source),
+          outcome,
+          media,
+        });
+      }
+
+      progress.advance(page.length);
+      if (progress.shouldReport()) {
+        this.log(chalk.gray(`   ${progress.describe()}`));
+      }
+    }
+
+    return entries;
+  }
+
+  // Read the spooled posts back with their final slugs and rewritten links
+  private async *finalPosts(
+    spool: JsonLinesSpool<GhostPost>,
+    slugs: Map<string, string>,
+    crossLinks: CrossLinkRewriter,
+    transformer: PostTransformer,
+    links: LinkStats,
+  ): AsyncGenerator<GhostPost> {
+    for await (const spooled of spool.read()) {
+      const slug = slugs.get(spooled.id);
+      let post = slug ? { ...spooled, slug } : spooled;
+
+      const result = crossLinks.rewrite(post);
+      if (result.rewritten > 0) {
+        post = transformer.withHtml(post, result.html);
+        links.rewritten += result.rewritten;
+      }
+      links.unresolved.push(...result.unresolved);
+
+      yield post;
+    }
+  }
+
+  private logLinks(links: LinkStats): void {
+    if (links.rewritten > 0) {
+      this.log(chalk.green(`✅ Rewrote ${links.rewritten} links between posts`));
+    }
+    if (links.unresolved.length > 0) {
+      const list = links.unresolved.map(link => `${link.href} (in post ${link.postId})`);
+      this.warn(chalk.yellow(`⚠️  ${list.length} links point at posts that weren't migrated:\n   ${list.join('\n   ')}`));
+    }
+  }
+
+  private async publishToGhost(
+    config: Config,
+    posts: AsyncIterable<GhostPost>,
+    count: number,
+    relations: ExportRelations,
+    options: { stateFile: string; batchSize: number; mediaDir?: string },
+  ): Promise<void> {
+    const api = new GhostAdminAPI(config.ghostAdminUrl || '', config.ghostAdminKey || '');
+    const publisher = new GhostPublisher(api, {
+      ...options,
+      authorEmail: config.author.email,
+      onBatch: done => this.log(chalk.gray(`   ${done}/${count} posts`)),
+    });
+
+    this.log(chalk.blue(`📤 Publishing to ${api.siteUrl}...`));
+    const result = await publisher.publish(posts, relations);
+
+    for (const warning of result.warnings) {
+      this.warn(chalk.yellow(`⚠️  ${warning}`));
+    }
+    for (const failure of result.failed) {
+      this.warn(chalk.yellow(`⚠️  Could not publish ${failure.slug}: ${failure.error}`));
+    }
+    this.log(chalk.green(
+      `✅ Published to Ghost: ${result.created} created, ${result.updated} updated, ${result.imagesUploaded} images uploaded` +
+      (result.mediaUploaded > 0 ? `, ${result.mediaUploaded} videos and audio files uploaded` : '')
+    ));
+    this.log(chalk.gray(`🗂️  Ghost post ids saved to ${options.stateFile}`));
+
+    if (result.failed.length > 0) {
+      throw new Error(`${result.failed.length} posts could not be published. Run the migration again to retry them.`);
+    }
+  }
+
+  /**
+   * Bring transform outcomes up to date with the passes that ran after the
+   * transform: slug deduplication and cross-link rewriting.
+   */
+  private finalOutcomes(entries: MigratedEntry[], unresolvedLinks: UnresolvedLink[]): PostOutcome[] {
+    const linksByPost = new Map<string, UnresolvedLink[]>();
+    for (const link of unresolvedLinks) {
+      linksByPost.set(link.postId, [...(linksByPost.get(link.postId) || []), link]);
+    }
+
+    return entries.map(({ post, outcome }) => {
+      const links = linksByPost.get(outcome.id) || [];
+      return {
+        ...outcome,
+        slug: post.slug,
+        warnings: [...outcome.warnings, ...links.map(link => `Links to a post that wasn't migrated: ${link.href}`)],
+      };
+    });
+  }
+
+  private logOutcomeSummary(outcomes: PostOutcome[]): void {
+    const withWarnings = outcomes.filter(outcome => outcome.warnings.length > 0).length;
+    const withSkipped = outcomes.filter(outcome => outcome.skipped.length > 0).length;
+    const dateTitles = outcomes.filter(outcome => outcome.titleStrategy === 'date').length;
+
+    if (withWarnings + withSkipped > 0) {
+      this.log(chalk.yellow(`⚠️  ${withWarnings} posts with warnings, ${withSkipped} with skipped content, ${dateTitles} titled by date`));
+    }
+  }
+
+  private reportRedirectProblems(plan: RedirectPlan): void {
+    for (const collision of plan.collisions) {
+      this.warn(chalk.yellow(`⚠️  ${collision.from} could redirect to ${collision.targets.join(' or ')}; using ${collision.targets[0]}`));
+    }
+    for (const shared of plan.sharedTargets) {
+      this.warn(chalk.yellow(`⚠️  ${shared.from.join(', ')} all redirect to ${shared.to}`));
+    }
+    for (const from of plan.shadowed) {
+      this.warn(chalk.yellow(`⚠️  The redirect from ${from} hides the Ghost post at the same URL`));
+    }
+    if (plan.external.length > 0) {
+      this.log(chalk.gray(`ℹ️  ${plan.external.length} tmblr.co short links point at Tumblr and can't be redirected from your domain`));
+    }
+  }
+
+  private async shouldResume(
+    checkpoint: FetchCheckpoint,
+    blogName: string,
+    optionsKey: string,
+    { resume, refresh, limit }: Pick<MigrateFlags, 'resume' | 'refresh' | 'limit'>,
+  ): Promise<boolean> {
+    if (refresh) {
+      await checkpoint.clear();
+      return false;
+    }
+
+    const state = await checkpoint.load();
+    if (!state || resume) {
+      return resume && !!state;
+    }
+
+    // Pages fetched for another blog or with other options can't stand in for this fetch
+    if (state.blogName !== blogName || state.optionsKey !== optionsKey) {
+      this.log(chalk.gray(`💾 The posts cached in ${checkpoint.dir} were fetched with other options; fetching again`));
+      return false;
+    }
+
+    // A finished fetch that covers the requested limit can be reused as-is
+    if (state.exhausted || state.totalFetched >= limit) {
+      this.log(chalk.gray(`💾 Using ${state.totalFetched} cached posts from ${checkpoint.dir} (pass --refresh to fetch again)`));
+      return true;
+    }
+
+    throw new Error(
+      `An interrupted fetch was found in ${checkpoint.dir} (${state.totalFetched} posts). ` +
+      'Run again with --resume to continue it or --refresh to start over.'
+    );
   }
 } 
\ No newline at end of file
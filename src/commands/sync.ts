@@ -0,0 +1,210 @@
+import { Command, Flags, Args, Interfaces } from '@oclif/core';
+import chalk from 'chalk';
+import { format } from 'date-fns';
+import path from 'path';
+import { TumblrAPI } from '../api/tumblr';
+import { GhostExporter } from '../export/jsonWriter';
+import { exportHash, recordSync, SyncState } from '../export/syncState';
+import { JsonFileSource } from '../sources/jsonFiles';
+import { PostSource } from '../sources/postSource';
+import { CrossLinkRewriter, LinkedPost } from '../transform/crossLinks';
+import { ContentFormat, PostTransformer, PrivatePostMode } from '../transform/formatPost';
+import { ReblogMode } from '../transform/reblogs';
+import { Config, getOAuthCredentials, loadConfig } from '../utils/config';
+import { presentationFlags, presentationOptions } from '../utils/flags';
+import { sanitizeBlogName } from '../utils/paths';
+import { loadExistingSlugs, SlugRegistry } from '../utils/slug';
+
+type SyncFlags = Interfaces.InferredFlags<typeof Sync.flags>;
+
+export default class Sync extends Command {
+  static description = 'Export only posts that are new or changed since the last sync, for blogs still active on Tumblr';
+
+  static examples = [
+    '$ ghostify sync myblog.tumblr.com',
+    '$ ghostify sync myblog.tumblr.com --full',
+    '$ ghostify sync myblog.tumblr.com --state ./myblog-sync-state.json --output ./myblog-update.json',
+  ];
+
+  static flags = {
+    output: Flags.string({
+      char: 'o',
+      description: 'Output file path for Ghost JSON (defaults to blog-name-sync-<date>.json)',
+    }),
+    state: Flags.string({
+      description: 'Sync state file recording what was exported (defaults to blog-name-sync-state.json)',
+    }),
+    full: Flags.boolean({
+      description: 'Fetch every post instead of only newer ones, to pick up edits to older posts',
+      default: false,
+    }),
+    'include-private': Flags.boolean({
+      description: 'Include private posts (requires OAuth tokens)',
+      default: false,
+    }),
+    'include-drafts': Flags.boolean({
+      description: 'Include drafts, imported as Ghost drafts (requires OAuth tokens)',
+      default: false,
+    }),
+    'include-queue': Flags.boolean({
+      description: 'Include queued posts, imported as scheduled posts (requires OAuth tokens)',
+      default: false,
+    }),
+    'private-as': Flags.string({
+      description: 'How to import private posts: as drafts, or published for members or paid members only',
+      options: ['draft', 'members', 'paid'],
+      default: 'draft',
+    }),
+    reblogs: Flags.string({
+      description: 'How to migrate reblogs: quote the reblogged posts or keep only your commentary',
+      options: ['trail', 'commentary'],
+      default: 'trail',
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Editor format for post content',
+      options: ['mobiledoc', 'lexical'],
+      default: 'mobiledoc',
+    }),
+    ...presentationFlags,
+    'from-json': Flags.string({
+      description: 'Read posts from saved Tumblr API responses instead of the API',
+      multiple: true,
+    }),
+    'existing-slugs': Flags.string({
+      description: 'Slugs already used on the Ghost site: a Ghost JSON export or a text file with one slug per line',
+    }),
+  };
+
+  static args = {
+    blog: Args.string({
+      description: 'Tumblr blog name (e.g., myblog.tumblr.com) - optional if TUMBLR_BLOG_NAME is set in .env',
+      required: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Sync);
+
+    try {
+      const config = await loadConfig({ requireApiKey: !flags['from-json'] });
+      const source = this.createSource(config, flags);
+
+      const blogName = args.blog || config.blogName || (await source.blogName?.());
+      if (!blogName) {
+        this.error(chalk.red('❌ No blog name specified. Pass it as an argument or set TUMBLR_BLOG_NAME in your .env file.'));
+      }
+
+      const baseName = sanitizeBlogName(blogName);
+      const syncState = new SyncState(flags.state || `./${baseName}-sync-state.json`);
+      const state = await syncState.load(blogName);
+      const outputPath = flags.output || `./${baseName}-sync-${format(new Date(), 'yyyyMMdd-HHmmss')}.json`;
+
+      // The first sync has nothing to start from, so it takes everything
+      const since = flags.full || state.syncs === 0 ? undefined : state.lastTimestamp;
+      this.log(chalk.blue(`🔁 Syncing ${blogName}...`));
+      this.log(chalk.gray(`🗂️  State: ${syncState.filePath} (${Object.keys(state.posts).length} posts exported so far)`));
+      if (since !== undefined) {
+        this.log(chalk.gray(`📅 Fetching posts since ${new Date(since * 1000).toISOString()}`));
+      }
+
+      const posts = await source.fetchAllPosts(blogName, {
+        limit: Infinity,
+        includePrivate: flags['include-private'],
+        includeDrafts: flags['include-drafts'],
+        includeQueue: flags['include-queue'],
+        since,
+      });
+      this.log(chalk.green(`✅ Fetched ${posts.length} posts`));
+
+      const transformer = new PostTransformer(config.author, {
+        contentFormat: flags.format as ContentFormat,
+        privatePosts: flags['private-as'] as PrivatePostMode,
+        reblogs: flags.reblogs as ReblogMode,
+        ...presentationOptions(flags),
+      });
+      const ghostPosts = posts.map(post => {
+        // Posts exported before keep the slug they have on Ghost
+        const synced = state.posts[String(post.id)];
+        const ghostPost = transformer.transform(post);
+        return synced ? { ...ghostPost, slug: synced.slug } : ghostPost;
+      });
+
+      // New posts get slugs that are free on Ghost and among everything synced so far
+      const existingSlugs = flags['existing-slugs'] ? await loadExistingSlugs(flags['existing-slugs']) : [];
+      const registry = new SlugRegistry([...existingSlugs, ...Object.values(state.posts).map(synced => synced.slug)]);
+      const newIndexes = posts.map((post, index) => index).filter(index => !state.posts[String(posts[index].id)]);
+      const uniquePosts = transformer.assignUniqueSlugs(newIndexes.map(index => ghostPosts[index]), registry);
+      newIndexes.forEach((postIndex, index) => {
+        ghostPosts[postIndex] = uniquePosts[index];
+      });
+
+      const tagsByPost: Record<string, string[]> = {};
+      posts.forEach((post, index) => {
+        tagsByPost[ghostPosts[index].id] = transformer.extractTags(post);
+      });
+
+      // Links can point at posts from earlier syncs as well as this one
+      const fetchedIds = new Set(posts.map(post => String(post.id)));
+      const earlier: LinkedPost[] = Object.entries(state.posts)
+        .filter(([id]) => !fetchedIds.has(id))
+        .map(([id, synced]) => ({
+          source: { id, slug: synced.tumblrSlug, post_url: synced.postUrl, short_url: synced.shortUrl },
+          // Entries saved without a status are linked to as published posts
+          post: { slug: synced.slug, status: synced.status || 'published' },
+        }));
+      const crossLinks = new CrossLinkRewriter(
+        [...posts.map((source, index) => ({ source, post: ghostPosts[index] })), ...earlier],
+        [blogName],
+      );
+      for (let i = 0; i < ghostPosts.length; i++) {
+        const result = crossLinks.rewrite(ghostPosts[i]);
+        if (result.rewritten > 0) {
+          ghostPosts[i] = transformer.withHtml(ghostPosts[i], result.html);
+        }
+      }
+
+      const entries = posts.map((source, index) => ({
+        source,
+        post: ghostPosts[index],
+        hash: exportHash(ghostPosts[index], tagsByPost[ghostPosts[index].id] || []),
+      }));
+      const pending = entries.filter(entry => state.posts[String(entry.source.id)]?.hash !== entry.hash);
+      const added = pending.filter(entry => !state.posts[String(entry.source.id)]).length;
+
+      if (pending.length === 0) {
+        await syncState.save(recordSync(state, []));
+        this.log(chalk.green('✅ Nothing new or changed since the last sync'));
+        return;
+      }
+
+      this.log(chalk.blue('📤 Exporting to Ghost JSON...'));
+      const exporter = new GhostExporter(config.author);
+      await exporter.exportToFile(pending.map(entry => entry.post), outputPath, { tagsByPost });
+
+      // Only record the posts once the export that contains them exists
+      await syncState.save(recordSync(state, pending));
+
+      this.log(chalk.green(`✅ Exported ${added} new and ${pending.length - added} changed posts to ${outputPath}`));
+      this.log(chalk.gray(`📁 File: ${path.resolve(outputPath)}`));
+    } catch (error) {
+      this.error(chalk.red(`❌ Sync failed: ${error}`));
+    }
+  }
+
+  private createSource(config: Config, flags: SyncFlags): PostSource {
+    if (flags['from-json']) {
+      return new JsonFileSource(flags['from-json']);
+    }
+
+    const oauth = getOAuthCredentials(config);
+    if (!oauth && (flags['include-private'] || flags['include-drafts'] || flags['include-queue'])) {
+      this.error(chalk.red(
+        '❌ --include-private, --include-drafts and --include-queue need OAuth credentials. ' +
+        'Set TUMBLR_CONSUMER_SECRET, TUMBLR_ACCESS_TOKEN and TUMBLR_ACCESS_TOKEN_SECRET in your .env file.'
+      ));
+    }
+
+    return new TumblrAPI(config.apiKey, { oauth });
+  }
+}
@@ -0,0 +1,251 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { GhostAdminAPI, GhostAdminPost, GhostAdminPostInput } from '../api/ghostAdmin';
+import { GHOST_URL_PLACEHOLDER, localMediaUrls } from '../media/mediaStore';
+import { GhostPost } from '../transform/formatPost';
+import { isInsideDir } from '../utils/paths';
+import { ExportRelations } from './jsonWriter';
+
+export interface PublishOptions {
+  // JSON file mapping exported posts to Ghost post ids and local media to uploaded URLs
+  stateFile: string;
+  // Posts sent at once; the mapping is saved after every batch
+  batchSize?: number;
+  // Directory with the content/images/... and content/media/... files that __GHOST_URL__ URLs point at
+  mediaDir?: string;
+  // Staff user to publish as, by email, unless a post has its own author; the integration's owner otherwise
+  authorEmail?: string;
+  // Called with the number of posts handled so far after every batch
+  onBatch?: (done: number) => void;
+}
+
+export interface PublishResult {
+  created: number;
+  updated: number;
+  imagesUploaded: number;
+  // Videos and audio files
+  mediaUploaded: number;
+  failed: Array<{ slug: string; error: string }>;
+  // Warnings that didn't stop a post from being published
+  warnings: string[];
+}
+
+interface PublishState {
+  // Exported post id -> Ghost post id
+  posts: Record<string, string>;
+  // __GHOST_URL__ image or media URL -> URL of the uploaded copy
+  images: Record<string, string>;
+}
+
+/**
+ * Publishes posts straight to a Ghost site through the Admin API, as an
+ * alternative to writing an import file. Publishing is idempotent: posts
+ * are matched to ones published before by the stored id mapping, then by
+ * slug, and updated instead of duplicated. Images downloaded with --media
+ * are uploaded once and their URLs rewritten; only files listed in the
+ * relations' mediaByPost are uploaded.
+ */
+export class GhostPublisher {
+  private api: GhostAdminAPI;
+  private options: PublishOptions;
+  private state: PublishState = { posts: {}, images: {} };
+  private uploads = new Map<string, Promise<string | null>>();
+  private authors = new Map<string, Promise<Array<{ id: string }> | undefined>>();
+
+  constructor(api: GhostAdminAPI, options: PublishOptions) {
+    this.api = api;
+    this.options = options;
+  }
+
+  /**
+   * Publish posts as they arrive, a batch at a time, so they don't all have
+   * to be in memory.
+   */
+  async publish(
+    posts: Iterable<GhostPost> | AsyncIterable<GhostPost>,
+    relations: ExportRelations = {},
+  ): Promise<PublishResult> {
+    const result: PublishResult = { created: 0, updated: 0, imagesUploaded: 0, mediaUploaded: 0, failed: [], warnings: [] };
+    const batchSize = Math.max(1, this.options.batchSize ?? 10);
+
+    if (await fs.pathExists(this.options.stateFile)) {
+      this.state = await fs.readJson(this.options.stateFile);
+    }
+
+    let batch: GhostPost[] = [];
+    let done = 0;
+    for await (const post of posts) {
+      batch.push(post);
+      if (batch.length >= batchSize) {
+        await this.publishBatch(batch, relations, result);
+        done += batch.length;
+        this.options.onBatch?.(done);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.publishBatch(batch, relations, result);
+      this.options.onBatch?.(done + batch.length);
+    }
+
+    return result;
+  }
+
+  private async publishBatch(
+    batch: GhostPost[],
+    relations: ExportRelations,
+    result: PublishResult,
+  ): Promise<void> {
+    await Promise.all(batch.map(async post => {
+      try {
+        const tags = relations.tagsByPost?.[post.id] || [];
+        const authors = await this.resolveAuthors(relations.authorsByPost?.[post.id]?.email || this.options.authorEmail, result);
+        const input = await this.toInput(post, tags, authors, relations.mediaByPost?.[post.id] || [], result);
+        const existing = await this.findExisting(post);
+
+        const saved = existing
+          ? await this.api.updatePost(existing.id, { ...input, updated_at: existing.updated_at })
+          : await this.api.createPost(input);
+        this.state.posts[post.id] = saved.id;
+        if (existing) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      } catch (error) {
+        result.failed.push({ slug: post.slug, error: error instanceof Error ? error.message : String(error) });
+      }
+    }));
+
+    await fs.outputJson(this.options.stateFile, this.state, { spaces: 2 });
+  }
+
+  // Each staff user is looked up once, however many posts are theirs
+  private resolveAuthors(email: string | undefined, result: PublishResult): Promise<Array<{ id: string }> | undefined> {
+    if (!email) return Promise.resolve(undefined);
+
+    let authors = this.authors.get(email);
+    if (!authors) {
+      authors = this.findAuthor(email, result);
+      this.authors.set(email, authors);
+    }
+    return authors;
+  }
+
+  private async findAuthor(email: string, result: PublishResult): Promise<Array<{ id: string }> | undefined> {
+    const user = await this.api.findUserByEmail(email);
+    if (!user) {
+      result.warnings.push(`No staff user with the email ${email}; their posts are published as the site owner`);
+      return undefined;
+    }
+    return [{ id: user.id }];
+  }
+
+  private async findExisting(post: GhostPost): Promise<GhostAdminPost | null> {
+    const knownId = this.state.posts[post.id];
+    if (knownId) {
+      const known = await this.api.findPost(knownId);
+      if (known) return known;
+      // Deleted on Ghost since the last run: fall back to the slug
+      delete this.state.posts[post.id];
+    }
+    return this.api.findPostBySlug(post.slug);
+  }
+
+  private async toInput(
+    post: GhostPost,
+    tags: string[],
+    authors: Array<{ id: string }> | undefined,
+    media: string[],
+    result: PublishResult,
+  ): Promise<GhostAdminPostInput> {
+    // Local images and media have to be uploaded before the post can point at them.
+    // Post text can name any path, so only the files written for the post count.
+    const urls = new Set<string>();
+    for (const text of [post.mobiledoc, post.lexical, post.feature_image]) {
+      for (const match of localMediaUrls(text || '')) {
+        if (media.includes(this.relativePath(match))) {
+          urls.add(match);
+        }
+      }
+    }
+
+    let { mobiledoc, lexical, feature_image: featureImage } = post;
+    for (const url of urls) {
+      const uploaded = await this.uploadFile(url, result);
+      if (!uploaded) continue;
+      mobiledoc = mobiledoc?.split(url).join(uploaded) ?? null;
+      lexical = lexical?.split(url).join(uploaded) ?? null;
+      featureImage = featureImage?.split(url).join(uploaded) ?? null;
+    }
+
+    return {
+      title: post.title,
+      slug: post.slug,
+      ...(lexical ? { lexical } : { mobiledoc: mobiledoc || undefined }),
+      status: post.status,
+      visibility: post.visibility,
+      featured: post.featured === 1,
+      published_at: post.published_at ? this.toIsoDate(post.published_at) : null,
+      created_at: this.toIsoDate(post.created_at),
+      custom_excerpt: post.custom_excerpt,
+      feature_image: featureImage,
+      feature_image_alt: post.feature_image_alt,
+      feature_image_caption: post.feature_image_caption,
+      show_title_and_feature_image: post.show_title_and_feature_image !== 0,
+      tags: tags.map(name => ({ name })),
+      ...(authors ? { authors } : {}),
+    };
+  }
+
+  private uploadFile(url: string, result: PublishResult): Promise<string | null> {
+    const known = this.state.images[url];
+    if (known) return Promise.resolve(known);
+
+    // Posts in the same batch often share images; upload each only once
+    let upload = this.uploads.get(url);
+    if (!upload) {
+      upload = this.readAndUpload(url, result);
+      this.uploads.set(url, upload);
+    }
+    return upload;
+  }
+
+  private async readAndUpload(url: string, result: PublishResult): Promise<string | null> {
+    const relativePath = this.relativePath(url);
+    const { mediaDir } = this.options;
+    const filePath = path.resolve(mediaDir || '', relativePath);
+
+    if (!mediaDir || !isInsideDir(mediaDir, filePath) || !(await fs.pathExists(filePath))) {
+      result.warnings.push(`${relativePath} was not found${mediaDir ? ` in ${mediaDir}` : ''}`);
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(filePath);
+      let uploaded: string;
+      if (relativePath.startsWith('content/media/')) {
+        uploaded = await this.api.uploadMedia(data, path.basename(filePath), relativePath);
+        result.mediaUploaded++;
+      } else {
+        uploaded = await this.api.uploadImage(data, path.basename(filePath), relativePath);
+        result.imagesUploaded++;
+      }
+      this.state.images[url] = uploaded;
+      return uploaded;
+    } catch (error) {
+      result.warnings.push(`Could not upload ${relativePath}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  // content/images/... path of a __GHOST_URL__ URL
+  private relativePath(url: string): string {
+    return decodeURIComponent(url.slice(`${GHOST_URL_PLACEHOLDER}/`.length));
+  }
+
+  // Exported dates are "YYYY-MM-DD HH:mm:ss.SSS" in UTC
+  private toIsoDate(value: string): string {
+    return new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+  }
+}
@@ -1,9 +1,79 @@
 import fs from 'fs-extra';
-import path from 'path';
 import { 
   GhostPost, 
   AuthorConfig
 } from '../transform/formatPost';
+import { stableId } from '../utils/ids';
+import { isValidSlug, slugify } from '../utils/slug';
+import { ExportFileWriter } from './streamWriter';
+
+export interface GhostTag {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  feature_image: string | null;
+  parent_id: string | null;
+  visibility: string;
+  meta_title: string | null;
+  meta_description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GhostUser {
+  id: string;
+  name: string;
+  slug: string;
+  email: string;
+  profile_image: string | null;
+  cover_image: string | null;
+  bio: string | null;
+  website: string | null;
+  location: string | null;
+  status: string;
+  visibility: string;
+  meta_title: string | null;
+  meta_description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GhostRole {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface GhostPostTag {
+  id: string;
+  post_id: string;
+  tag_id: string;
+  sort_order: number;
+}
+
+export interface GhostPostAuthor {
+  id: string;
+  post_id: string;
+  author_id: string;
+  sort_order: number;
+}
+
+export interface GhostRoleUser {
+  id: string;
+  role_id: string;
+  user_id: string;
+}
+
+export interface GhostExportData {
+  posts: GhostPost[];
+  tags: GhostTag[];
+  users: GhostUser[];
+  roles: GhostRole[];
+  posts_tags: GhostPostTag[];
+  posts_authors: GhostPostAuthor[];
+  roles_users: GhostRoleUser[];
+}
 
 export interface GhostExport {
   db: Array<{
@@ -11,12 +81,47 @@ export interface GhostExport {
       exported_on: number;
       version: string;
     };
-    data: {
-      posts: GhostPost[];
-    };
+    data: GhostExportData;
   }>;
 }
 
+export interface ExportRelations {
+  // Tumblr tag names keyed by Ghost post id
+  tagsByPost?: Record<string, string[]>;
+  // Authors keyed by Ghost post id, for posts not by the exporter's author
+  authorsByPost?: Record<string, AuthorConfig>;
+  // Media files written by MediaStore keyed by Ghost post id, as content/images/... paths
+  mediaByPost?: Record<string, string[]>;
+}
+
+export interface SplitOptions {
+  // Most posts in one file
+  maxPosts?: number;
+  // Largest size of one file in bytes
+  maxBytes?: number;
+}
+
+export interface ExportedFile {
+  path: string;
+  posts: number;
+  bytes: number;
+  // content/images/... and content/media/... paths the file's posts point at
+  media: string[];
+}
+
+/**
+ * The Ghost slug a Tumblr tag is exported under.
+ */
+export function tagSlug(name: string): string {
+  // Tags that slugify to nothing (emoji, non-Latin scripts) still need a unique slug
+  return slugify(name) || `tag-${stableId(`tag-name:${name}`).slice(0, 8)}`;
+}
+
+// blog.json -> blog-2.json
+function numberedPath(outputPath: string, index: number): string {
+  return `${outputPath.replace(/\.json$/i, '')}-${index}.json`;
+}
+
 export class GhostExporter {
   private version = '5.129.1';
   private authorConfig?: AuthorConfig;
@@ -25,56 +130,99 @@ export class GhostExporter {
     this.authorConfig = authorConfig;
   }
 
-  async exportToFile(posts: GhostPost[], outputPath: string): Promise<void> {
+  async exportToFile(posts: GhostPost[], outputPath: string, relations: ExportRelations = {}): Promise<void> {
+    await this.exportToFiles(posts, outputPath, relations);
+  }
+
+  /**
+   * Stream posts into Ghost import files without holding the export in
+   * memory. With a post or size limit the export is split into numbered
+   * files (blog-1.json, blog-2.json, ...), each carrying the tags, users
+   * and links its own posts need, so they can be imported one at a time.
+   */
+  async exportToFiles(
+    posts: Iterable<GhostPost> | AsyncIterable<GhostPost>,
+    outputPath: string,
+    relations: ExportRelations = {},
+    options: SplitOptions = {},
+  ): Promise<ExportedFile[]> {
+    const { maxPosts, maxBytes } = options;
+    const split = maxPosts !== undefined || maxBytes !== undefined;
+    const now = this.formatTimestamp(new Date());
+    const meta = { exported_on: Date.now(), version: this.version };
+    // Shared by all files so a tag keeps one id and name throughout
+    const tagsBySlug = new Map<string, GhostTag>();
+    const slugs = new Map<string, string>();
+    const files: ExportedFile[] = [];
+
+    let writer: ExportFileWriter | undefined;
+    let media = new Set<string>();
+
     try {
-      // Create simplified Ghost export structure
-      const exportData: GhostExport = {
-        db: [
-          {
-            meta: {
-              exported_on: Date.now(),
-              version: this.version,
-            },
-            data: {
-              posts,
-            },
-          },
-        ],
-      };
+      for await (const post of posts) {
+        this.checkPost(post, slugs);
 
-      // Validate the export data
-      this.validateExport(exportData);
+        const serialized = JSON.stringify(post);
+        const rows = this.linkPost(post, relations, tagsBySlug, now);
 
-      // Ensure output directory exists
-      const outputDir = path.dirname(outputPath);
-      await fs.ensureDir(outputDir);
+        // A post too big for maxBytes on its own still gets a file to itself
+        if (writer && (
+          (maxPosts !== undefined && writer.posts >= maxPosts) ||
+          (maxBytes !== undefined && writer.sizeWith(serialized, rows) > maxBytes)
+        )) {
+          files.push(await this.closeExportFile(writer, media));
+          writer = undefined;
+        }
 
-      // Write the JSON file with pretty printing
-      await fs.writeJson(outputPath, exportData, {
-        spaces: 2,
-        encoding: 'utf8',
-      });
+        if (!writer) {
+          writer = await ExportFileWriter.open(split ? numberedPath(outputPath, files.length + 1) : outputPath, meta);
+          media = new Set();
+        }
 
+        await writer.writePost(serialized, rows);
+        for (const file of relations.mediaByPost?.[post.id] || []) {
+          media.add(file);
+        }
+      }
+
+      // An empty export is still a valid file
+      if (!writer && files.length === 0) {
+        writer = await ExportFileWriter.open(outputPath, meta);
+        writer.addRows(this.authorRows(this.authorConfig, now));
+      }
+      if (writer) {
+        files.push(await this.closeExportFile(writer, media));
+        writer = undefined;
+      }
+
+      // Nothing to split: keep the name that was asked for
+      if (split && files.length === 1 && files[0].path !== outputPath) {
+        await fs.move(files[0].path, outputPath, { overwrite: true });
+        files[0].path = outputPath;
+      }
+
+      return files;
     } catch (error) {
+      await writer?.abort();
       throw new Error(`Failed to export to file: ${error}`);
     }
   }
 
-  async exportToString(posts: GhostPost[]): Promise<string> {
+  /**
+   * Validate posts as they stream past without writing anything, as a dry
+   * run of exportToFiles. Resolves with the number of posts.
+   */
+  async validatePostStream(posts: Iterable<GhostPost> | AsyncIterable<GhostPost>): Promise<number> {
+    const slugs = new Map<string, string>();
+    for await (const post of posts) {
+      this.checkPost(post, slugs);
+    }
+    return slugs.size;
+  }
+
+  async exportToString(posts: GhostPost[], relations: ExportRelations = {}): Promise<string> {
     try {
-      const exportData: GhostExport = {
-        db: [
-          {
-            meta: {
-              exported_on: Date.now(),
-              version: this.version,
-            },
-            data: {
-              posts,
-            },
-          },
-        ],
-      };
+      const exportData = this.buildExport(posts, relations);
 
       this.validateExport(exportData);
 
@@ -84,6 +232,174 @@ export class GhostExporter {
     }
   }
 
+  buildExport(posts: GhostPost[], relations: ExportRelations = {}): GhostExport {
+    return {
+      db: [
+        {
+          meta: {
+            exported_on: Date.now(),
+            version: this.version,
+          },
+          data: this.buildData(posts, relations),
+        },
+      ],
+    };
+  }
+
+  private buildData(posts: GhostPost[], relations: ExportRelations): GhostExportData {
+    const now = this.formatTimestamp(new Date());
+    const tagsBySlug = new Map<string, GhostTag>();
+    const postsTags: GhostPostTag[] = [];
+    const postsAuthors: GhostPostAuthor[] = [];
+    // An export without posts still carries its author
+    const authors = posts.length > 0 ? this.emptyAuthorRows() : this.authorRows(this.authorConfig, now);
+    const rowIds = new Set<string>();
+
+    for (const post of posts) {
+      const links = this.linkPost(post, relations, tagsBySlug, now);
+      postsTags.push(...links.posts_tags);
+      postsAuthors.push(...links.posts_authors);
+      // Every post repeats its author's rows
+      authors.users.push(...links.users.filter(row => !rowIds.has(row.id) && rowIds.add(row.id)));
+      authors.roles.push(...links.roles.filter(row => !rowIds.has(row.id) && rowIds.add(row.id)));
+      authors.roles_users.push(...links.roles_users.filter(row => !rowIds.has(row.id) && rowIds.add(row.id)));
+    }
+
+    return {
+      posts,
+      tags: Array.from(tagsBySlug.values()),
+      users: authors.users,
+      roles: authors.roles,
+      posts_tags: postsTags,
+      posts_authors: postsAuthors,
+      roles_users: authors.roles_users,
+    };
+  }
+
+  /**
+   * The tag and author links for one post, with the rows they point at.
+   * Tags are taken from tagsBySlug, or created and added to it.
+   */
+  private linkPost(
+    post: GhostPost,
+    relations: ExportRelations,
+    tagsBySlug: Map<string, GhostTag>,
+    timestamp: string,
+  ): Omit<GhostExportData, 'posts'> {
+    const tags: GhostTag[] = [];
+    const postsTags: GhostPostTag[] = [];
+    const postsAuthors: GhostPostAuthor[] = [];
+
+    for (const name of relations.tagsByPost?.[post.id] || []) {
+      const tag = this.getOrCreateTag(tagsBySlug, name, timestamp);
+      // Two Tumblr tags can collapse to the same slug ("Art" and "art")
+      if (tags.some(linked => linked.id === tag.id)) continue;
+      tags.push(tag);
+
+      postsTags.push({
+        id: stableId(`posts_tags:${post.id}:${tag.id}`),
+        post_id: post.id,
+        tag_id: tag.id,
+        sort_order: tags.length - 1,
+      });
+    }
+
+    const author = relations.authorsByPost?.[post.id] || this.authorConfig;
+    const authors = this.authorRows(author, timestamp);
+    if (author) {
+      const userId = stableId(`user:${author.slug}`);
+      postsAuthors.push({
+        id: stableId(`posts_authors:${post.id}:${userId}`),
+        post_id: post.id,
+        author_id: userId,
+        sort_order: 0,
+      });
+    }
+
+    return { tags, posts_tags: postsTags, posts_authors: postsAuthors, ...authors };
+  }
+
+  private authorRows(author: AuthorConfig | undefined, timestamp: string): Pick<GhostExportData, 'users' | 'roles' | 'roles_users'> {
+    if (!author) {
+      return this.emptyAuthorRows();
+    }
+
+    const user = this.createUser(author, timestamp);
+    const role: GhostRole = {
+      id: stableId('role:Author'),
+      name: 'Author',
+      description: 'Authors',
+    };
+
+    return {
+      users: [user],
+      roles: [role],
+      roles_users: [{
+        id: stableId(`roles_users:${role.id}:${user.id}`),
+        role_id: role.id,
+        user_id: user.id,
+      }],
+    };
+  }
+
+  private emptyAuthorRows(): Pick<GhostExportData, 'users' | 'roles' | 'roles_users'> {
+    return { users: [], roles: [], roles_users: [] };
+  }
+
+  private async closeExportFile(writer: ExportFileWriter, media: Set<string>): Promise<ExportedFile> {
+    const bytes = await writer.close();
+    return { path: writer.filePath, posts: writer.posts, bytes, media: Array.from(media) };
+  }
+
+  private getOrCreateTag(tagsBySlug: Map<string, GhostTag>, name: string, timestamp: string): GhostTag {
+    const slug = tagSlug(name);
+
+    let tag = tagsBySlug.get(slug);
+    if (!tag) {
+      tag = {
+        id: stableId(`tag:${slug}`),
+        name,
+        slug,
+        description: null,
+        feature_image: null,
+        parent_id: null,
+        visibility: 'public',
+        meta_title: null,
+        meta_description: null,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      tagsBySlug.set(slug, tag);
+    }
+
+    return tag;
+  }
+
+  private createUser(author: AuthorConfig, timestamp: string): GhostUser {
+    return {
+      id: stableId(`user:${author.slug}`),
+      name: author.name,
+      slug: author.slug,
+      email: author.email,
+      profile_image: null,
+      cover_image: null,
+      bio: null,
+      website: null,
+      location: null,
+      status: 'active',
+      visibility: 'public',
+      meta_title: null,
+      meta_description: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+  }
+
+  private formatTimestamp(date: Date): string {
+    // Same format PostTransformer uses for post dates
+    return date.toISOString().replace('T', ' ').replace('Z', '');
+  }
+
   private validateExport(exportData: GhostExport): void {
     // Validate required fields
     if (!exportData.db || !Array.isArray(exportData.db) || exportData.db.length === 0) {
@@ -102,23 +418,59 @@ export class GhostExporter {
     
     // Validate posts
     this.validatePosts(dbEntry.data.posts);
+    this.validateRelations(dbEntry.data);
+  }
+
+  private validateRelations(data: GhostExportData): void {
+    const postIds = new Set(data.posts.map(post => post.id));
+    const tagIds = new Set((data.tags || []).map(tag => tag.id));
+    const userIds = new Set((data.users || []).map(user => user.id));
+
+    for (const link of data.posts_tags || []) {
+      if (!postIds.has(link.post_id) || !tagIds.has(link.tag_id)) {
+        throw new Error(`posts_tags entry ${link.id} references an unknown post or tag`);
+      }
+    }
+
+    for (const link of data.posts_authors || []) {
+      if (!postIds.has(link.post_id) || !userIds.has(link.author_id)) {
+        throw new Error(`posts_authors entry ${link.id} references an unknown post or user`);
+      }
+    }
   }
 
   private validatePosts(posts: GhostPost[]): void {
+    const slugs = new Map<string, string>();
     for (const post of posts) {
-      this.validatePost(post);
+      this.checkPost(post, slugs);
     }
   }
 
+  // Validate a post and that no earlier one (recorded in slugs) has its slug
+  private checkPost(post: GhostPost, slugs: Map<string, string>): void {
+    this.validatePost(post);
+
+    const other = slugs.get(post.slug);
+    if (other) {
+      throw new Error(`Posts ${other} and ${post.id} share the slug ${post.slug}`);
+    }
+    slugs.set(post.slug, post.id);
+  }
+
   private validatePost(post: GhostPost): void {
-    const requiredFields = ['id', 'uuid', 'title', 'slug', 'type', 'status', 'published_at'];
+    const requiredFields = ['id', 'uuid', 'title', 'slug', 'type', 'status'];
     for (const field of requiredFields) {
       if (!post[field as keyof GhostPost]) {
         throw new Error(`Post missing required field: ${field}`);
       }
     }
+
+    // Drafts have no publish date yet
+    if (post.status !== 'draft' && !post.published_at) {
+      throw new Error(`Post ${post.id} is ${post.status} but has no published_at`);
+    }
     
-    if (!/^[a-z0-9-]+$/.test(post.slug)) {
+    if (!isValidSlug(post.slug)) {
       throw new Error(`Post ${post.id} has invalid slug: ${post.slug}`);
     }
   }
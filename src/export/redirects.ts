@@ -0,0 +1,193 @@
+import fs from 'fs-extra';
+import { TumblrPost } from '../api/tumblr';
+import { GhostPost } from '../transform/formatPost';
+import { tagSlug } from './jsonWriter';
+
+export type RedirectFormat = 'yaml' | 'json' | 'nginx' | 'netlify';
+
+export const REDIRECT_FORMATS: RedirectFormat[] = ['yaml', 'json', 'nginx', 'netlify'];
+
+export interface Redirect {
+  // Path on the old Tumblr domain; anything below it (/post/123/some-slug, /tagged/art/page/2) redirects too
+  from: string;
+  to: string;
+  kind: 'post' | 'tag' | 'short-url';
+}
+
+export interface RedirectCollision {
+  from: string;
+  // Every target the path was wanted for; the first one is used
+  targets: string[];
+}
+
+export interface RedirectPlan {
+  redirects: Redirect[];
+  collisions: RedirectCollision[];
+  // Ghost URLs more than one Tumblr post redirects to
+  sharedTargets: Array<{ to: string; from: string[] }>;
+  // Old paths that are also a Ghost post URL, which the redirect would hide
+  shadowed: string[];
+  // Short links on another domain (tmblr.co) that can't be redirected from ours
+  external: string[];
+}
+
+export interface MigratedPost {
+  source: Pick<TumblrPost, 'id' | 'post_url' | 'short_url'>;
+  post: Pick<GhostPost, 'slug' | 'status'>;
+  // Tumblr tag names, as passed to the exporter
+  tags: string[];
+}
+
+const FILE_SUFFIXES: Record<RedirectFormat, string> = {
+  yaml: '-redirects.yaml',
+  json: '-redirects.json',
+  nginx: '-redirects.nginx.conf',
+  netlify: '-redirects.netlify',
+};
+
+/**
+ * Work out the redirects from old Tumblr URLs to the Ghost URLs posts and
+ * tags were exported under. Only published posts get redirects, since
+ * drafts and scheduled posts have no public URL yet.
+ */
+export function planRedirects(migrated: MigratedPost[]): RedirectPlan {
+  const claims = new Map<string, Redirect[]>();
+  const external: string[] = [];
+
+  const claim = (redirect: Redirect) => {
+    const key = normalizePath(redirect.from);
+    // The old URL is already the Ghost one; redirecting it would loop
+    if (key === normalizePath(redirect.to)) return;
+
+    const existing = claims.get(key) || [];
+    if (!existing.some(other => other.to === redirect.to)) {
+      existing.push(redirect);
+    }
+    claims.set(key, existing);
+  };
+
+  for (const { source, post, tags } of migrated) {
+    for (const name of tags) {
+      const to = `/tag/${tagSlug(name)}/`;
+      for (const from of tagPaths(name)) {
+        claim({ from, to, kind: 'tag' });
+      }
+    }
+
+    if (post.status !== 'published') continue;
+
+    const to = `/${post.slug}/`;
+    const postUrl = parseUrl(source.post_url);
+
+    // Covers /post/<id>/<any-slug> as well as the bare id
+    claim({ from: `/post/${source.id}`, to, kind: 'post' });
+    if (postUrl && !normalizePath(postUrl.pathname).startsWith(`/post/${source.id}`)) {
+      claim({ from: postUrl.pathname, to, kind: 'post' });
+    }
+
+    const shortUrl = parseUrl(source.short_url);
+    if (shortUrl && postUrl && shortUrl.host === postUrl.host) {
+      claim({ from: shortUrl.pathname, to, kind: 'short-url' });
+    } else if (source.short_url) {
+      external.push(source.short_url);
+    }
+  }
+
+  const redirects: Redirect[] = [];
+  const collisions: RedirectCollision[] = [];
+  for (const candidates of claims.values()) {
+    redirects.push(candidates[0]);
+    if (candidates.length > 1) {
+      collisions.push({ from: candidates[0].from, targets: candidates.map(candidate => candidate.to) });
+    }
+  }
+
+  const postsByTarget = new Map<string, string[]>();
+  for (const redirect of redirects.filter(redirect => redirect.kind === 'post' && redirect.from.startsWith('/post/'))) {
+    postsByTarget.set(redirect.to, [...(postsByTarget.get(redirect.to) || []), redirect.from]);
+  }
+  const sharedTargets = Array.from(postsByTarget.entries())
+    .filter(([, from]) => from.length > 1)
+    .map(([to, from]) => ({ to, from }));
+
+  const ghostPaths = new Set(migrated.map(({ post }) => normalizePath(`/${post.slug}`)));
+  const shadowed = redirects.map(redirect => redirect.from).filter(from => ghostPaths.has(normalizePath(from)));
+
+  return { redirects, collisions, sharedTargets, shadowed, external };
+}
+
+export function renderRedirects(redirects: Redirect[], format: RedirectFormat): string {
+  switch (format) {
+    case 'yaml':
+      // Ghost's redirects.yaml: regex keys under the status code
+      return ['301:', ...redirects.map(({ from, to }) => `  ${yamlString(ghostPattern(from))}: ${yamlString(to)}`), '302:', ''].join('\n');
+    case 'json':
+      return JSON.stringify(
+        redirects.map(({ from, to }) => ({ from: ghostPattern(from), to, permanent: true })),
+        null,
+        2,
+      ) + '\n';
+    case 'nginx':
+      // nginx matches against the decoded path
+      return redirects
+        .map(({ from, to }) => `rewrite "^${escapeRegex(safeDecode(from))}(?:/.*)?$" ${to} permanent;`)
+        .join('\n') + '\n';
+    case 'netlify':
+      return redirects
+        .flatMap(({ from, to }) => [`${from}  ${to}  301`, `${from}/*  ${to}  301`])
+        .join('\n') + '\n';
+  }
+}
+
+/**
+ * Write the redirects in each format next to the export, returning the files written.
+ */
+export async function writeRedirects(basePath: string, redirects: Redirect[], formats: RedirectFormat[]): Promise<string[]> {
+  const written: string[] = [];
+  for (const format of formats) {
+    const filePath = `${basePath}${FILE_SUFFIXES[format]}`;
+    await fs.outputFile(filePath, renderRedirects(redirects, format), 'utf8');
+    written.push(filePath);
+  }
+  return written;
+}
+
+function tagPaths(name: string): string[] {
+  // Tumblr links tags with spaces either encoded or hyphenated
+  const lower = name.trim().toLowerCase();
+  const paths = [lower, lower.replace(/\s+/g, '-')].map(tag => `/tagged/${encodeURIComponent(tag)}`);
+  return Array.from(new Set(paths));
+}
+
+function ghostPattern(from: string): string {
+  return `^${escapeRegex(from).replace(/\//g, '\\/')}(?:\\/.*)?$`;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function yamlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\/+$/, '').toLowerCase() || '/';
+}
+
+function parseUrl(value: string | undefined): URL | null {
+  if (!value) return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'fs-extra';
+import { PostOutcome } from '../transform/outcome';
+
+export interface ReportSummary {
+  posts: number;
+  reblogs: number;
+  byType: Record<string, number>;
+  byStatus: Record<string, number>;
+  byTitleStrategy: Record<string, number>;
+  images: number;
+  galleries: number;
+  embeds: number;
+  bookmarks: number;
+  withWarnings: number;
+  withSkippedContent: number;
+  withoutFeatureImage: number;
+}
+
+export interface MigrationReport {
+  blog: string;
+  generatedAt: string;
+  dryRun: boolean;
+  summary: ReportSummary;
+  posts: PostOutcome[];
+}
+
+export function buildReport(blog: string, outcomes: PostOutcome[], dryRun: boolean): MigrationReport {
+  const tally = (key: (outcome: PostOutcome) => string) => {
+    const counts: Record<string, number> = {};
+    for (const outcome of outcomes) {
+      counts[key(outcome)] = (counts[key(outcome)] || 0) + 1;
+    }
+    return counts;
+  };
+  const sum = (value: (outcome: PostOutcome) => number) => outcomes.reduce((total, outcome) => total + value(outcome), 0);
+
+  return {
+    blog,
+    generatedAt: new Date().toISOString(),
+    dryRun,
+    summary: {
+      posts: outcomes.length,
+      reblogs: outcomes.filter(outcome => outcome.reblog).length,
+      byType: tally(outcome => outcome.type),
+      byStatus: tally(outcome => outcome.status),
+      byTitleStrategy: tally(outcome => outcome.titleStrategy),
+      images: sum(outcome => outcome.media.images),
+      galleries: sum(outcome => outcome.media.galleries),
+      embeds: sum(outcome => outcome.media.embeds),
+      bookmarks: sum(outcome => outcome.media.bookmarks),
+      withWarnings: outcomes.filter(outcome => outcome.warnings.length > 0).length,
+      withSkippedContent: outcomes.filter(outcome => outcome.skipped.length > 0).length,
+      withoutFeatureImage: outcomes.filter(outcome => !outcome.featureImage).length,
+    },
+    posts: outcomes,
+  };
+}
+
+/**
+ * A Markdown summary for reviewing a migration: totals first, then only
+ * the posts that need a look, then a table of every post.
+ */
+export function renderMarkdownReport(report: MigrationReport): string {
+  const { summary } = report;
+  const lines: string[] = [
+    `# Migration report: ${report.blog}`,
+    '',
+    `Generated ${report.generatedAt}${report.dryRun ? ' (dry run: no export was written)' : ''}.`,
+    '',
+    '## Summary',
+    '',
+    `- Posts: ${summary.posts} (${formatCounts(summary.byType)})`,
+    `- Reblogs: ${summary.reblogs}`,
+    `- Status: ${formatCounts(summary.byStatus)}`,
+    `- Titles: ${formatCounts(summary.byTitleStrategy)}`,
+    `- Media: ${summary.images} images, ${summary.galleries} galleries, ${summary.embeds} embeds, ${summary.bookmarks} bookmarks`,
+    `- Posts with warnings: ${summary.withWarnings}`,
+    `- Posts with skipped content: ${summary.withSkippedContent}`,
+    `- Posts without a feature image: ${summary.withoutFeatureImage}`,
+    '',
+  ];
+
+  const flagged = report.posts.filter(post => post.warnings.length > 0 || post.skipped.length > 0);
+  lines.push('## Needs review', '');
+  if (flagged.length === 0) {
+    lines.push('Nothing to review.', '');
+  }
+  for (const post of flagged) {
+    lines.push(`### ${markdownEscape(post.title)} (\`${post.slug}\`, ${post.type} ${post.id})`, '');
+    for (const warning of post.warnings) {
+      lines.push(`- ⚠️ ${markdownEscape(warning)}`);
+    }
+    for (const skipped of post.skipped) {
+      lines.push(`- ⏭️ Skipped ${markdownEscape(skipped)}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(
+    '## All posts',
+    '',
+    '| Id | Type | Title | Title from | Slug | Status | Images | Feature image |',
+    '|----|------|-------|------------|------|--------|--------|---------------|',
+  );
+  for (const post of report.posts) {
+    lines.push(
+      `| ${post.id} | ${post.type} | ${markdownEscape(post.title)} | ${post.titleStrategy} | ${post.slug} | ${post.status} | ${post.media.images} | ${post.featureImage ? 'yes' : 'no'} |`,
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write the report as JSON and Markdown next to the export, returning the files written.
+ */
+export async function writeReport(basePath: string, report: MigrationReport): Promise<string[]> {
+  const jsonPath = `${basePath}-report.json`;
+  const markdownPath = `${basePath}-report.md`;
+
+  await fs.outputJson(jsonPath, report, { spaces: 2 });
+  await fs.outputFile(markdownPath, renderMarkdownReport(report), 'utf8');
+
+  return [jsonPath, markdownPath];
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${name} ${count}`)
+    .join(', ') || 'none';
+}
+
+function markdownEscape(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
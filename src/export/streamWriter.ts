@@ -0,0 +1,127 @@
+import { once } from 'events';
+import fs from 'fs-extra';
+import path from 'path';
+import { GhostExport, GhostExportData } from './jsonWriter';
+
+// Everything in an export besides the posts, all keyed by id
+export type ExportRows = Omit<GhostExportData, 'posts'>;
+
+type ExportMeta = GhostExport['db'][number]['meta'];
+
+const ROW_KEYS: Array<keyof ExportRows> = ['tags', 'users', 'roles', 'posts_tags', 'posts_authors', 'roles_users'];
+
+/**
+ * Writes one Ghost import file a post at a time, so neither the posts nor
+ * the finished JSON ever have to be held in memory. Posts go straight to
+ * disk; the tags, users and links they need are collected and written
+ * after them when the file is closed.
+ */
+export class ExportFileWriter {
+  readonly filePath: string;
+
+  private stream: fs.WriteStream;
+  private streamError?: Error;
+  private written = 0;
+  private postCount = 0;
+  private rows: ExportRows = { tags: [], users: [], roles: [], posts_tags: [], posts_authors: [], roles_users: [] };
+  private rowIds = new Set<string>();
+  private rowBytes = 0;
+  private closingBytes: number;
+
+  private constructor(filePath: string) {
+    this.filePath = filePath;
+    this.stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+    this.stream.on('error', error => {
+      this.streamError = error;
+    });
+    this.closingBytes = Buffer.byteLength(this.closing());
+  }
+
+  static async open(filePath: string, meta: ExportMeta): Promise<ExportFileWriter> {
+    await fs.ensureDir(path.dirname(filePath));
+
+    const writer = new ExportFileWriter(filePath);
+    await writer.write(`{"db":[{"meta":${JSON.stringify(meta)},"data":{"posts":[`);
+    return writer;
+  }
+
+  get posts(): number {
+    return this.postCount;
+  }
+
+  /**
+   * How big the finished file would be with this post and its rows added.
+   */
+  sizeWith(serializedPost: string, rows: Partial<ExportRows> = {}): number {
+    let size = this.written + this.closingBytes + this.rowBytes + Buffer.byteLength(serializedPost) + 2;
+    for (const row of this.newRows(rows)) {
+      size += Buffer.byteLength(JSON.stringify(row)) + 2;
+    }
+    return size;
+  }
+
+  async writePost(serializedPost: string, rows: Partial<ExportRows> = {}): Promise<void> {
+    await this.write(`${this.postCount > 0 ? ',' : ''}\n${serializedPost}`);
+    this.postCount++;
+    this.addRows(rows);
+  }
+
+  /**
+   * Add rows that aren't tied to a post, such as the author every post links to.
+   */
+  addRows(rows: Partial<ExportRows>): void {
+    for (const key of ROW_KEYS) {
+      for (const row of rows[key] || []) {
+        if (this.rowIds.has(row.id)) continue;
+        this.rowIds.add(row.id);
+        (this.rows[key] as Array<typeof row>).push(row);
+        this.rowBytes += Buffer.byteLength(JSON.stringify(row)) + 2;
+      }
+    }
+  }
+
+  /**
+   * Write the collected rows and close the file. Resolves with its size in bytes.
+   */
+  async close(): Promise<number> {
+    await this.write(this.closing());
+    this.stream.end();
+    await once(this.stream, 'finish');
+    return this.written;
+  }
+
+  /**
+   * Stop writing and remove the unfinished file.
+   */
+  async abort(): Promise<void> {
+    this.stream.destroy();
+    await fs.remove(this.filePath);
+  }
+
+  private *newRows(rows: Partial<ExportRows>): Generator<ExportRows[keyof ExportRows][number]> {
+    for (const key of ROW_KEYS) {
+      for (const row of rows[key] || []) {
+        if (!this.rowIds.has(row.id)) yield row;
+      }
+    }
+  }
+
+  private closing(): string {
+    const sections = ROW_KEYS.map(key => {
+      const rows = this.rows[key].map(row => JSON.stringify(row)).join(',\n');
+      return `${JSON.stringify(key)}:[${rows ? `\n${rows}\n` : ''}]`;
+    });
+    return `\n],${sections.join(',')}}}]}\n`;
+  }
+
+  private async write(chunk: string): Promise<void> {
+    if (this.streamError) {
+      throw this.streamError;
+    }
+
+    this.written += Buffer.byteLength(chunk);
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+}
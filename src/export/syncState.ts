@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { TumblrPost } from '../api/tumblr';
+import { GhostPost } from '../transform/formatPost';
+
+export interface SyncedPost {
+  slug: string;
+  // Ghost status, so only published posts are linked to
+  status?: string;
+  // Hash of the exported post, to tell when it changed on Tumblr
+  hash: string;
+  timestamp: number;
+  // Enough of the Tumblr post to rewrite links to it from later posts
+  tumblrSlug?: string;
+  postUrl?: string;
+  shortUrl?: string;
+}
+
+export interface SyncStateData {
+  blogName: string;
+  // Newest post seen so far; the next sync fetches from here
+  lastTimestamp: number;
+  lastPostId: string | null;
+  syncs: number;
+  updatedAt: string;
+  // Every post exported so far, by Tumblr id
+  posts: Record<string, SyncedPost>;
+}
+
+/**
+ * On-disk record of what `sync` has exported for a blog. It lets each run
+ * fetch only posts newer than the last one, keep the slugs already used on
+ * Ghost, and export only posts that are new or changed.
+ */
+export class SyncState {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(blogName: string): Promise<SyncStateData> {
+    if (!(await fs.pathExists(this.filePath))) {
+      return {
+        blogName,
+        lastTimestamp: 0,
+        lastPostId: null,
+        syncs: 0,
+        updatedAt: new Date().toISOString(),
+        posts: {},
+      };
+    }
+
+    const state: SyncStateData = await fs.readJson(this.filePath);
+    if (state.blogName !== blogName) {
+      throw new Error(`The sync state in ${this.filePath} belongs to ${state.blogName}, not ${blogName}.`);
+    }
+    return state;
+  }
+
+  async save(state: SyncStateData): Promise<void> {
+    // Write to a temporary file first so an interrupted save never corrupts the state
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.ensureDir(path.dirname(this.filePath));
+    await fs.writeJson(tempPath, state, { spaces: 2 });
+    await fs.move(tempPath, this.filePath, { overwrite: true });
+  }
+}
+
+/**
+ * Record exported posts in the state and move the sync cursor past the
+ * newest of them.
+ */
+export function recordSync(state: SyncStateData, entries: Array<{ source: TumblrPost; post: GhostPost; hash: string }>): SyncStateData {
+  const posts = { ...state.posts };
+  let { lastTimestamp, lastPostId } = state;
+
+  for (const { source, post, hash } of entries) {
+    posts[String(source.id)] = {
+      slug: post.slug,
+      status: post.status,
+      hash,
+      timestamp: source.timestamp,
+      tumblrSlug: source.slug,
+      postUrl: source.post_url,
+      shortUrl: source.short_url,
+    };
+
+    // Drafts and queued posts aren't on the timeline, so they don't move the cursor
+    if ((source.state === 'published' || source.state === 'private') && source.timestamp >= lastTimestamp) {
+      lastTimestamp = source.timestamp;
+      lastPostId = String(source.id);
+    }
+  }
+
+  return {
+    ...state,
+    lastTimestamp,
+    lastPostId,
+    syncs: state.syncs + 1,
+    updatedAt: new Date().toISOString(),
+    posts,
+  };
+}
+
+/**
+ * Hash the parts of an exported post that matter to Ghost. Timestamps of
+ * the export itself are left out so an unchanged post hashes the same.
+ */
+export function exportHash(post: GhostPost, tags: string[]): string {
+  const content = {
+    title: post.title,
+    slug: post.slug,
+    html: post.html,
+    feature_image: post.feature_image,
+    status: post.status,
+    visibility: post.visibility,
+    published_at: post.published_at,
+    tags,
+    custom_excerpt: post.custom_excerpt,
+    feature_image_alt: post.feature_image_alt,
+    feature_image_caption: post.feature_image_caption,
+    show_title_and_feature_image: post.show_title_and_feature_image,
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
@@ -0,0 +1,61 @@
+import archiver from 'archiver';
+import fs from 'fs-extra';
+import path from 'path';
+import { isInsideDir } from '../utils/paths';
+
+/**
+ * Bundle a Ghost JSON export and its content/images and content/media
+ * folders into a zip that Ghost's importer (Settings → Labs → Import
+ * content) accepts in one upload. With a list of files (content/images/...
+ * and content/media/... paths) only those are bundled, as for one part of
+ * a split export.
+ */
+export async function writeImportZip(
+  zipPath: string,
+  jsonPath: string,
+  mediaRoot: string,
+  files?: string[],
+): Promise<void> {
+  // Entries are named after the paths, so they have to stay inside the media folder
+  for (const file of files || []) {
+    if (!isInsideDir(mediaRoot, path.resolve(mediaRoot, file))) {
+      throw new Error(`${file} is outside the media folder ${mediaRoot}`);
+    }
+  }
+
+  await fs.ensureDir(path.dirname(zipPath));
+
+  const output = fs.createWriteStream(zipPath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+    archive.on('warning', error => {
+      if (error.code !== 'ENOENT') reject(error);
+    });
+  });
+
+  archive.pipe(output);
+  archive.file(jsonPath, { name: path.basename(jsonPath) });
+
+  if (files) {
+    for (const file of files) {
+      const filePath = path.resolve(mediaRoot, file);
+      if (await fs.pathExists(filePath)) {
+        archive.file(filePath, { name: path.relative(path.resolve(mediaRoot), filePath).split(path.sep).join('/') });
+      }
+    }
+  } else {
+    for (const folder of ['images', 'media']) {
+      const folderPath = path.join(mediaRoot, 'content', folder);
+      if (await fs.pathExists(folderPath)) {
+        archive.directory(folderPath, `content/${folder}`);
+      }
+    }
+  }
+
+  await archive.finalize();
+  await finished;
+}
@@ -0,0 +1,325 @@
+import axios, { AxiosInstance } from 'axios';
+import * as cheerio from 'cheerio';
+import crypto from 'crypto';
+import { format } from 'date-fns';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { isInsideDir } from '../utils/paths';
+
+export const GHOST_URL_PLACEHOLDER = '__GHOST_URL__';
+
+export interface MediaStoreOptions {
+  // Directory that will contain content/images/YYYY/MM/...
+  rootDir: string;
+  timeout?: number;
+  // Also download video and audio files into content/media/YYYY/MM/...
+  videoAudio?: boolean;
+  // Directories local files may be copied from, such as extracted blog exports; any other source is a URL
+  localRoots?: string[];
+}
+
+interface MediaManifest {
+  // Source URL -> path relative to rootDir
+  urls: Record<string, string>;
+  // Content hash -> path relative to rootDir
+  hashes: Record<string, string>;
+}
+
+export interface LocalizedContent {
+  html: string;
+  featureImage: string | null;
+  // Files the content points at, relative to rootDir
+  files: string[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+const LOCAL_MEDIA_URL_PATTERN = new RegExp(`${GHOST_URL_PLACEHOLDER}/content/(?:images|media)/[^"'\\s)<>\\\\]+`, 'g');
+
+/**
+ * The __GHOST_URL__ image, video and audio URLs in a piece of content,
+ * i.e. the files it expects to find in a media directory.
+ */
+export function localMediaUrls(text: string): string[] {
+  return text.match(LOCAL_MEDIA_URL_PATTERN) || [];
+}
+
+/**
+ * Downloads images referenced by posts into a Ghost content/images layout
+ * and rewrites their URLs to point at the imported copies. Files are
+ * deduplicated by content hash, and a manifest lets re-runs skip
+ * anything already downloaded. Several posts can be localized at once.
+ */
+export class MediaStore {
+  private client: AxiosInstance;
+  private rootDir: string;
+  private videoAudio: boolean;
+  private localRoots: string[];
+  private manifest: MediaManifest = { urls: {}, hashes: {} };
+  // Every file written, relative to rootDir, this run or in earlier ones
+  private files = new Set<string>();
+  private failures = new Map<string, string>();
+  private loading?: Promise<void>;
+  // Downloads in progress, so concurrent posts sharing an image fetch it once
+  private inFlight = new Map<string, Promise<string | null>>();
+  // Files being written, by content hash, so identical files from different URLs are written once
+  private writing = new Map<string, Promise<string>>();
+  // Paths handed out but possibly not written yet
+  private allocated = new Set<string>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: MediaStoreOptions) {
+    this.rootDir = options.rootDir;
+    this.videoAudio = options.videoAudio ?? false;
+    this.localRoots = options.localRoots || [];
+    this.client = axios.create({
+      timeout: options.timeout ?? 60000,
+      responseType: 'arraybuffer',
+    });
+  }
+
+  get imagesDir(): string {
+    return path.join(this.rootDir, 'content', 'images');
+  }
+
+  get downloadedCount(): number {
+    return Object.keys(this.manifest.hashes).length;
+  }
+
+  get failedDownloads(): Map<string, string> {
+    return this.failures;
+  }
+
+  /**
+   * Download every image in a post's HTML (plus its feature image, video
+   * posters and, if enabled, the videos and audio themselves) and return
+   * the content with URLs rewritten to __GHOST_URL__/content/...
+   */
+  async localizePost(html: string, featureImage: string | null, publishedAt: Date): Promise<LocalizedContent> {
+    await this.loadManifest();
+
+    const $ = cheerio.load(html, null, false);
+    const images = $('img').toArray();
+    const files = new Set<string>();
+    const store = async (source: string, folder: 'images' | 'media' = 'images') => {
+      const localUrl = await this.store(source, publishedAt, folder);
+      const file = localUrl && this.storedFile(localUrl);
+      if (file) files.add(file);
+      return localUrl;
+    };
+
+    for (const img of images) {
+      const $img = $(img);
+      const source = this.bestSource($img.attr('src'), $img.attr('srcset'));
+      if (!source) continue;
+
+      const localUrl = await store(source);
+      if (!localUrl) continue;
+
+      const originalSrc = $img.attr('src');
+      $img.attr('src', localUrl);
+      // Tumblr's responsive variants would still point at Tumblr
+      $img.removeAttr('srcset');
+      $img.removeAttr('sizes');
+
+      // Images are often wrapped in links to the full-size file
+      const $link = $img.closest('a');
+      if ($link.length && [originalSrc, source].includes($link.attr('href'))) {
+        $link.attr('href', localUrl);
+      }
+    }
+
+    const posters = $('video[poster]').toArray();
+    for (const video of posters) {
+      const localUrl = await store($(video).attr('poster') as string);
+      if (localUrl) $(video).attr('poster', localUrl);
+    }
+
+    const players = this.videoAudio ? $('video[src], audio[src], source[src]').toArray() : [];
+    for (const el of players) {
+      const localUrl = await store($(el).attr('src') as string, 'media');
+      if (localUrl) $(el).attr('src', localUrl);
+    }
+
+    const localFeatureImage = featureImage ? (await store(featureImage)) || featureImage : null;
+
+    return {
+      html: images.length + posters.length + players.length > 0 ? $.html() : html,
+      featureImage: localFeatureImage,
+      files: Array.from(files),
+    };
+  }
+
+  /**
+   * Store a single image (or a video or audio file in content/media),
+   * returning its Ghost URL or null if it could not be downloaded. Local
+   * files (absolute paths or file:// URLs) inside the local roots are copied.
+   */
+  async store(source: string, publishedAt: Date, folder: 'images' | 'media' = 'images'): Promise<string | null> {
+    await this.loadManifest();
+
+    if (source.startsWith(`${GHOST_URL_PLACEHOLDER}/`)) {
+      return source;
+    }
+
+    const known = this.manifest.urls[source];
+    if (known) {
+      return this.toGhostUrl(known);
+    }
+
+    if (this.failures.has(source)) {
+      return null;
+    }
+
+    let download = this.inFlight.get(source);
+    if (!download) {
+      download = this.download(source, publishedAt, folder).finally(() => this.inFlight.delete(source));
+      this.inFlight.set(source, download);
+    }
+    return download;
+  }
+
+  private async download(source: string, publishedAt: Date, folder: 'images' | 'media'): Promise<string | null> {
+    let data: Buffer;
+    try {
+      data = await this.read(source);
+    } catch (error) {
+      this.failures.set(source, `${error}`);
+      return null;
+    }
+
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const relativePath = this.manifest.hashes[hash] || (await this.writeFile(source, hash, data, publishedAt, folder));
+
+    this.manifest.urls[source] = relativePath;
+    await this.saveManifest();
+
+    return this.toGhostUrl(relativePath);
+  }
+
+  private writeFile(source: string, hash: string, data: Buffer, publishedAt: Date, folder: 'images' | 'media'): Promise<string> {
+    let writing = this.writing.get(hash);
+    if (!writing) {
+      writing = (async () => {
+        const relativePath = await this.allocatePath(source, hash, publishedAt, folder);
+        await fs.outputFile(path.join(this.rootDir, relativePath), data);
+        this.manifest.hashes[hash] = relativePath;
+        this.files.add(relativePath);
+        return relativePath;
+      })().finally(() => this.writing.delete(hash));
+      this.writing.set(hash, writing);
+    }
+    return writing;
+  }
+
+  private async read(source: string): Promise<Buffer> {
+    const filePath = this.localPath(source);
+    if (filePath) {
+      return fs.readFile(filePath);
+    }
+
+    const response = await this.client.get<ArrayBuffer>(source);
+    return Buffer.from(response.data);
+  }
+
+  // Post content can name any path, so only files inside the local roots are read from disk
+  private localPath(source: string): string | null {
+    let filePath: string;
+    try {
+      filePath = source.startsWith('file://') ? fileURLToPath(source) : source;
+    } catch {
+      return null;
+    }
+
+    // Protocol-relative URLs look like absolute paths
+    if (filePath.startsWith('//') || !path.isAbsolute(filePath)) {
+      return null;
+    }
+    return this.localRoots.some(root => isInsideDir(root, filePath)) ? filePath : null;
+  }
+
+  private bestSource(src: string | undefined, srcset: string | undefined): string | null {
+    // Prefer the widest srcset candidate; Tumblr's src is often a reduced size
+    let best = src && !src.startsWith('data:') ? src : null;
+    let bestWidth = 0;
+
+    for (const candidate of (srcset || '').split(',')) {
+      const [url, descriptor] = candidate.trim().split(/\s+/);
+      const width = descriptor?.endsWith('w') ? parseInt(descriptor, 10) : 0;
+      if (url && width > bestWidth) {
+        best = url;
+        bestWidth = width;
+      }
+    }
+
+    return best;
+  }
+
+  private async allocatePath(source: string, hash: string, publishedAt: Date, kind: 'images' | 'media'): Promise<string> {
+    const folder = path.posix.join('content', kind, format(publishedAt, 'yyyy'), format(publishedAt, 'MM'));
+    const { name, ext } = path.parse(this.fileNameFor(source));
+    const extension = ext || (kind === 'images' ? '.jpg' : '.mp4');
+
+    const relativePath = path.posix.join(folder, `${name}${extension}`);
+    // Reserved before anything is awaited, so concurrent downloads can't both be given the name
+    const taken = this.allocated.has(relativePath);
+    this.allocated.add(relativePath);
+
+    if (taken || await fs.pathExists(path.join(this.rootDir, relativePath))) {
+      // Same name but different content: disambiguate with the hash
+      const hashedPath = path.posix.join(folder, `${name}-${hash.slice(0, 8)}${extension}`);
+      this.allocated.add(hashedPath);
+      return hashedPath;
+    }
+    return relativePath;
+  }
+
+  private fileNameFor(source: string): string {
+    let baseName: string;
+    try {
+      baseName = path.posix.basename(new URL(source).pathname);
+    } catch {
+      baseName = path.basename(source);
+    }
+
+    const sanitized = decodeURIComponent(baseName)
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]/g, '-')
+      .replace(/-+/g, '-')
+      .replace(/^[-.]+/, '');
+
+    return sanitized || 'image.jpg';
+  }
+
+  // The file a Ghost URL points at, if this store wrote it; content can name any path
+  private storedFile(url: string): string | null {
+    const relativePath = url.slice(`${GHOST_URL_PLACEHOLDER}/`.length);
+    return url.startsWith(`${GHOST_URL_PLACEHOLDER}/`) && this.files.has(relativePath) ? relativePath : null;
+  }
+
+  private toGhostUrl(relativePath: string): string {
+    return `${GHOST_URL_PLACEHOLDER}/${relativePath}`;
+  }
+
+  private loadManifest(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const manifestPath = path.join(this.rootDir, MANIFEST_FILE);
+        if (await fs.pathExists(manifestPath)) {
+          this.manifest = await fs.readJson(manifestPath);
+        }
+        this.files = new Set(Object.values(this.manifest.hashes));
+      })();
+    }
+    return this.loading;
+  }
+
+  private saveManifest(): Promise<void> {
+    // One write at a time; overlapping writes could leave a garbled manifest
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => fs.outputJson(path.join(this.rootDir, MANIFEST_FILE), this.manifest, { spaces: 2 }));
+    return this.saving;
+  }
+}
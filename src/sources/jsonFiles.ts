@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { FetchOptions, TumblrPost, TumblrResponse } from '../api/tumblr';
+import { applyFetchOptions, PostSource } from './postSource';
+
+/**
+ * Reads posts from Tumblr API responses saved as JSON, such as the files
+ * written by `ghostify fetch --save-raw` or the pages in a fetch checkpoint.
+ * Each path may be a file or a directory of files; a file can hold a full
+ * API response, its `response` object, or a plain array of posts.
+ */
+export class JsonFileSource implements PostSource {
+  readonly name: string;
+  private paths: string[];
+
+  constructor(paths: string | string[]) {
+    this.paths = (Array.isArray(paths) ? paths : [paths]).map(entry => path.resolve(entry));
+    this.name = `saved responses in ${this.paths.join(', ')}`;
+  }
+
+  async fetchAllPosts(_blogName: string, options: FetchOptions = {}): Promise<TumblrPost[]> {
+    const posts = new Map<string, TumblrPost>();
+
+    for (const file of await this.files()) {
+      for (const post of this.postsIn(await fs.readJson(file), file)) {
+        // Overlapping saves of the same blog repeat posts
+        posts.set(String(post.id), post);
+      }
+    }
+
+    const sorted = Array.from(posts.values()).sort((a, b) => b.timestamp - a.timestamp);
+    return applyFetchOptions(sorted, options);
+  }
+
+  async blogName(): Promise<string | undefined> {
+    for (const file of await this.files()) {
+      const data = await fs.readJson(file);
+      const name = (data as Partial<TumblrResponse>)?.response?.blog?.name;
+      if (name) return name;
+    }
+    return undefined;
+  }
+
+  private async files(): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of this.paths) {
+      if (!(await fs.pathExists(entry))) {
+        throw new Error(`Saved responses not found: ${entry}`);
+      }
+
+      if ((await fs.stat(entry)).isDirectory()) {
+        files.push(...(await this.jsonFilesIn(entry)));
+      } else {
+        files.push(entry);
+      }
+    }
+
+    if (files.length === 0) {
+      throw new Error(`No JSON files found in ${this.paths.join(', ')}`);
+    }
+
+    return files;
+  }
+
+  private async jsonFilesIn(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    // Sorted so numbered pages are read in order
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.jsonFilesIn(fullPath)));
+      } else if (entry.name.endsWith('.json') && entry.name !== 'checkpoint.json') {
+        files.push(fullPath);
+      }
+    }
+
+    return files;
+  }
+
+  private postsIn(data: unknown, file: string): TumblrPost[] {
+    if (Array.isArray(data)) {
+      return data as TumblrPost[];
+    }
+
+    const response = (data as Partial<TumblrResponse>)?.response ?? (data as TumblrResponse['response']);
+    if (response && Array.isArray(response.posts)) {
+      return response.posts;
+    }
+
+    throw new Error(`${file} does not look like a Tumblr API response`);
+  }
+}
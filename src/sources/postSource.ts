@@ -0,0 +1,64 @@
+import { matchesFilter } from '../api/filters';
+import { FetchOptions, TumblrPost } from '../api/tumblr';
+
+/**
+ * Anything posts can be migrated from: the Tumblr API, a blog export, or
+ * API responses saved to disk. Sources return posts in the API's shape,
+ * newest first, so they all feed the same transform pipeline.
+ */
+export interface PostSource {
+  // Shown in progress output
+  readonly name: string;
+
+  fetchAllPosts(blogName: string, options?: FetchOptions): Promise<TumblrPost[]>;
+
+  // Sources that fetch over the network hand posts over a page at a time
+  iteratePages?(blogName: string, options?: FetchOptions): AsyncIterable<TumblrPost[]>;
+
+  // Blog name recorded by the source, for sources that can work without one
+  blogName?(): Promise<string | undefined>;
+
+  // Directory of the local media files the source's posts point at, for sources read from disk
+  mediaRoot?(): Promise<string>;
+}
+
+/**
+ * A source's posts a page at a time. Sources that read everything at once
+ * produce a single page.
+ */
+export async function* sourcePages(source: PostSource, blogName: string, options: FetchOptions = {}): AsyncGenerator<TumblrPost[]> {
+  if (source.iteratePages) {
+    yield* source.iteratePages(blogName, options);
+    return;
+  }
+
+  const posts = await source.fetchAllPosts(blogName, options);
+  if (posts.length > 0) {
+    yield posts;
+  }
+}
+
+/**
+ * Apply the options offline sources can honour themselves: private posts are
+ * dropped unless asked for, drafts and queued posts likewise, then the
+ * filters and the limit.
+ */
+export function applyFetchOptions(posts: TumblrPost[], options: FetchOptions = {}): TumblrPost[] {
+  const { limit = 1000, includePrivate = false, includeDrafts = false, includeQueue = false } = options;
+
+  return posts
+    .filter(post => {
+      switch (post.state) {
+        case 'private':
+          return includePrivate;
+        case 'draft':
+          return includeDrafts;
+        case 'queued':
+          return includeQueue;
+        default:
+          return true;
+      }
+    })
+    .filter(post => matchesFilter(post, options))
+    .slice(0, limit);
+}
@@ -0,0 +1,357 @@
+import AdmZip from 'adm-zip';
+import * as cheerio from 'cheerio';
+import { parse } from 'date-fns';
+import type { Element } from 'domhandler';
+import fs from 'fs-extra';
+import path from 'path';
+import { FetchOptions, TumblrPhoto, TumblrPost } from '../api/tumblr';
+import { isInsideDir } from '../utils/paths';
+import { applyFetchOptions, PostSource } from './postSource';
+
+export interface TumblrArchiveOptions {
+  // Where zip archives are extracted (defaults to a folder next to the zip)
+  extractDir?: string;
+}
+
+// Media files are named after their post: 123456.jpg, 123456_0.jpg, 123456_1.png, ...
+const MEDIA_FILE = /^(\d+)(?:_(\d+))?\.[a-z0-9]+$/i;
+const EXTRACTED_MARKER = '.extracted';
+
+// Legacy XML post types that were renamed in the v2 API
+const XML_POST_TYPES: Record<string, string> = {
+  regular: 'text',
+  conversation: 'chat',
+};
+
+/**
+ * Reads the archive produced by Tumblr's "Export blog" feature, either the
+ * zip itself or an extracted copy. Posts are turned into the same shape the
+ * API returns so they go through the normal transform pipeline, with image
+ * references pointing at the archive's media folder.
+ *
+ * Both layouts Tumblr has shipped are supported: one HTML file per post
+ * under posts/html/, and the older single posts.xml.
+ */
+export class TumblrArchive implements PostSource {
+  readonly name: string;
+  private archivePath: string;
+  private options: TumblrArchiveOptions;
+  private root?: string;
+  private mediaFiles = new Map<string, string>();
+  private mediaByPost = new Map<string, string[]>();
+
+  constructor(archivePath: string, options: TumblrArchiveOptions = {}) {
+    this.archivePath = path.resolve(archivePath);
+    this.options = options;
+    this.name = `Tumblr export ${this.archivePath}`;
+  }
+
+  /**
+   * Blog name recorded in the archive, if any; otherwise one derived from the archive's file name.
+   */
+  async blogName(): Promise<string> {
+    const root = await this.open();
+    const xmlPath = await this.findFile(root, 'posts.xml');
+    if (xmlPath) {
+      const $ = cheerio.load(await fs.readFile(xmlPath, 'utf8'), { xmlMode: true });
+      const name = $('tumblelog').attr('name');
+      if (name) return name;
+    }
+    return path.parse(this.archivePath).name;
+  }
+
+  // Media are read from the extracted archive, and from nowhere else
+  async mediaRoot(): Promise<string> {
+    return this.open();
+  }
+
+  async fetchAllPosts(_blogName: string, options: FetchOptions = {}): Promise<TumblrPost[]> {
+    return applyFetchOptions(await this.loadPosts(), options);
+  }
+
+  async loadPosts(): Promise<TumblrPost[]> {
+    const root = await this.open();
+    await this.indexMedia(root);
+
+    const xmlPath = await this.findFile(root, 'posts.xml');
+    const posts = xmlPath ? await this.readXmlPosts(xmlPath) : await this.readHtmlPosts(root);
+
+    // Newest first, like the API
+    return posts.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private async open(): Promise<string> {
+    if (this.root) return this.root;
+
+    if (!(await fs.pathExists(this.archivePath))) {
+      throw new Error(`Tumblr archive not found: ${this.archivePath}`);
+    }
+
+    const stats = await fs.stat(this.archivePath);
+    this.root = stats.isDirectory() ? this.archivePath : await this.extract(this.archivePath);
+    return this.root;
+  }
+
+  private async extract(zipPath: string): Promise<string> {
+    const { dir, name } = path.parse(zipPath);
+    const target = this.options.extractDir || path.join(dir, `${name}-extracted`);
+
+    if (!(await fs.pathExists(path.join(target, EXTRACTED_MARKER)))) {
+      new AdmZip(zipPath).extractAllTo(target, true);
+
+      // The export zip wraps the posts in a zip of their own
+      for (const nested of await this.walk(target, file => file.endsWith('.zip'))) {
+        new AdmZip(nested).extractAllTo(path.dirname(nested), true);
+      }
+
+      await fs.writeFile(path.join(target, EXTRACTED_MARKER), new Date().toISOString());
+    }
+
+    return target;
+  }
+
+  private async indexMedia(root: string): Promise<void> {
+    const files = await this.walk(root, file => path.basename(path.dirname(file)) === 'media');
+
+    for (const file of files) {
+      const baseName = path.basename(file);
+      this.mediaFiles.set(baseName, file);
+
+      const match = baseName.match(MEDIA_FILE);
+      if (match) {
+        const list = this.mediaByPost.get(match[1]) || [];
+        list.push(file);
+        this.mediaByPost.set(match[1], list);
+      }
+    }
+
+    // 123_0.jpg, 123_1.jpg, ... in photoset order
+    for (const list of this.mediaByPost.values()) {
+      list.sort((a, b) => this.mediaIndex(a) - this.mediaIndex(b));
+    }
+  }
+
+  private mediaIndex(file: string): number {
+    const match = path.basename(file).match(MEDIA_FILE);
+    return match?.[2] ? parseInt(match[2], 10) : -1;
+  }
+
+  private async readHtmlPosts(root: string): Promise<TumblrPost[]> {
+    const files = await this.walk(root, file =>
+      file.endsWith('.html') && path.basename(path.dirname(file)) === 'html' && /^\d+$/.test(path.parse(file).name),
+    );
+
+    if (files.length === 0) {
+      throw new Error(`No posts found in ${this.archivePath}. Expected posts/html/*.html or posts.xml.`);
+    }
+
+    const posts: TumblrPost[] = [];
+    for (const file of files) {
+      posts.push(await this.readHtmlPost(file));
+    }
+    return posts;
+  }
+
+  private async readHtmlPost(file: string): Promise<TumblrPost> {
+    const id = path.parse(file).name;
+    const $ = cheerio.load(await fs.readFile(file, 'utf8'));
+    const $body = $('body');
+
+    const $footer = $body.find('#footer');
+    const tags = $footer.find('.tag').toArray().map(tag => $(tag).text().trim()).filter(Boolean);
+    const timestamp = this.parseHtmlTimestamp($footer.find('#timestamp').text()) ?? Math.floor((await fs.stat(file)).mtime.getTime() / 1000);
+    $footer.remove();
+
+    // Text posts with a title open with it as an <h1>
+    const $title = $body.children('h1').first();
+    const title = $title.text().trim() || undefined;
+    $title.remove();
+
+    $body.find('img, video, audio, source').each((_, element) => {
+      const $element = $(element);
+      const src = $element.attr('src');
+      const local = src ? this.resolveMedia(src, path.dirname(file)) : null;
+      if (local) {
+        $element.attr('src', local);
+        $element.removeAttr('srcset');
+      }
+    });
+
+    return {
+      ...this.basePost(id, timestamp, tags),
+      type: 'text',
+      title,
+      body: ($body.html() || '').trim(),
+      // Reblogs open with a link to the blog they were reblogged from
+      parent_post_url: $body.find('a.tumblr_blog').first().attr('href'),
+    };
+  }
+
+  /**
+   * Tumblr writes timestamps like "December 3rd, 2014 3:04pm", in UTC.
+   */
+  private parseHtmlTimestamp(text: string): number | null {
+    const cleaned = text.trim().replace(/(\d+)(st|nd|rd|th)/, '$1').replace(/\s+/g, ' ');
+    if (!cleaned) return null;
+
+    const date = parse(`${cleaned} +00`, 'MMMM d, yyyy h:mma X', new Date());
+    return Number.isNaN(date.getTime()) ? null : Math.floor(date.getTime() / 1000);
+  }
+
+  private async readXmlPosts(xmlPath: string): Promise<TumblrPost[]> {
+    const $ = cheerio.load(await fs.readFile(xmlPath, 'utf8'), { xmlMode: true });
+
+    return $('post').toArray().map(element => {
+      const $post = $(element);
+      const field = (name: string) => $post.children(name).first().text() || undefined;
+
+      const id = $post.attr('id') || '';
+      const type = $post.attr('type') || 'regular';
+      const tags = $post.children('tag').toArray().map(tag => $(tag).text().trim()).filter(Boolean);
+      const post: TumblrPost = {
+        ...this.basePost(id, Number($post.attr('unix-timestamp')) || 0, tags),
+        type: XML_POST_TYPES[type] || type,
+        slug: $post.attr('slug'),
+        post_url: $post.attr('url-with-slug') || $post.attr('url'),
+        state: $post.attr('private') === 'true' ? 'private' : 'published',
+        parent_post_url: $post.attr('reblogged-from-url'),
+      };
+
+      switch (type) {
+        case 'regular':
+          return { ...post, title: field('regular-title'), body: field('regular-body') };
+        case 'photo':
+          return {
+            ...post,
+            caption: field('photo-caption'),
+            link_url: field('photo-link-url'),
+            photos: this.xmlPhotos($, $post),
+          };
+        case 'quote':
+          return { ...post, text: field('quote-text'), source: field('quote-source') };
+        case 'link':
+          return { ...post, title: field('link-text'), url: field('link-url'), description: field('link-description') };
+        case 'conversation':
+          return {
+            ...post,
+            title: field('conversation-title'),
+            dialogue: $post.find('conversation > line').toArray().map(line => ({
+              name: $(line).attr('name') || '',
+              label: $(line).attr('label') || '',
+              phrase: $(line).text(),
+            })),
+          };
+        case 'audio':
+          return {
+            ...post,
+            caption: field('audio-caption'),
+            player: field('audio-player'),
+            artist: field('id3-artist'),
+            track_name: field('id3-title'),
+            album: field('id3-album'),
+          };
+        case 'video':
+          return {
+            ...post,
+            caption: field('video-caption'),
+            player: $post.children('video-player').toArray().map(player => ({
+              width: Number($(player).attr('max-width')) || 0,
+              embed_code: $(player).text(),
+            })),
+          };
+        case 'answer':
+          return { ...post, question: field('question'), answer: field('answer') };
+        default:
+          return post;
+      }
+    });
+  }
+
+  private xmlPhotos($: cheerio.CheerioAPI, $post: cheerio.Cheerio<Element>): TumblrPhoto[] {
+    const id = $post.attr('id') || '';
+    const local = this.mediaByPost.get(id) || [];
+    const $photos = $post.find('photoset > photo');
+    const entries = $photos.length > 0 ? $photos.toArray().map(photo => $(photo)) : [$post];
+
+    return entries.map(($photo, index) => {
+      const remote = this.largestXmlPhotoUrl($, $photo);
+      const url = local[index] || (remote && this.resolveMedia(remote, '')) || remote || '';
+      const size = {
+        url,
+        width: Number($photo.attr('width')) || 0,
+        height: Number($photo.attr('height')) || 0,
+      };
+      return { caption: $photo.attr('caption') || '', original_size: size, alt_sizes: [size] };
+    });
+  }
+
+  private largestXmlPhotoUrl($: cheerio.CheerioAPI, $photo: cheerio.Cheerio<Element>): string | null {
+    let best: string | null = null;
+    let bestWidth = -1;
+    $photo.children('photo-url').each((_, element) => {
+      const width = Number($(element).attr('max-width')) || 0;
+      if (width > bestWidth) {
+        best = $(element).text().trim();
+        bestWidth = width;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Map a media reference to a file in the archive: relative paths are
+   * resolved against the post file, remote URLs by their file name. Paths
+   * leading out of the archive are ignored.
+   */
+  private resolveMedia(src: string, baseDir: string): string | null {
+    if (!/^[a-z]+:/i.test(src) && baseDir && this.root) {
+      const candidate = path.resolve(baseDir, decodeURIComponent(src));
+      if (isInsideDir(this.root, candidate) && fs.existsSync(candidate)) return candidate;
+    }
+
+    try {
+      const baseName = path.posix.basename(new URL(src, 'file:///').pathname);
+      return this.mediaFiles.get(decodeURIComponent(baseName)) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private basePost(id: string, timestamp: number, tags: string[]): TumblrPost {
+    return {
+      id,
+      type: 'text',
+      timestamp,
+      date: new Date(timestamp * 1000).toISOString(),
+      format: 'html',
+      reblog_key: '',
+      tags,
+      bookmarklet: false,
+      mobile: false,
+      source_url: '',
+      source_title: '',
+      liked: false,
+      state: 'published',
+      total_posts: 0,
+      note_count: 0,
+    };
+  }
+
+  private async findFile(root: string, name: string): Promise<string | null> {
+    const [match] = await this.walk(root, file => path.basename(file) === name);
+    return match || null;
+  }
+
+  private async walk(dir: string, predicate: (file: string) => boolean): Promise<string[]> {
+    const results: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        results.push(...(await this.walk(fullPath, predicate)));
+      } else if (predicate(fullPath)) {
+        results.push(fullPath);
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,133 @@
+import { escapeHtml } from '../utils/html';
+
+/**
+ * HTML builders for Ghost (Koenig) cards. The markup matches what Ghost
+ * renders, so both the HTML and the card parser in contentBlocks.ts agree.
+ */
+
+export interface CardImage {
+  src: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  // Image cards link the image here; galleries have no links
+  href?: string;
+}
+
+export interface BookmarkCard {
+  url: string;
+  title: string;
+  description?: string;
+  publisher?: string;
+  author?: string;
+  thumbnail?: string;
+}
+
+export interface VideoCard {
+  src: string;
+  poster?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface AudioCard {
+  src: string;
+  title?: string;
+  thumbnail?: string;
+}
+
+function dimensionAttributes(image: CardImage): string {
+  let attributes = '';
+  if (image.width) attributes += ` width="${image.width}"`;
+  if (image.height) attributes += ` height="${image.height}"`;
+  return attributes;
+}
+
+function captionHtml(caption?: string): string {
+  return caption && caption.trim() ? `<figcaption>${caption.trim()}</figcaption>` : '';
+}
+
+export function imageCardHtml(image: CardImage, caption?: string): string {
+  const captionClass = caption && caption.trim() ? ' kg-card-hascaption' : '';
+  const img = `<img src="${escapeHtml(image.src)}" class="kg-image" alt="${escapeHtml(image.alt || '')}" loading="lazy"${dimensionAttributes(image)} />`;
+  return `<figure class="kg-card kg-image-card${captionClass}">` +
+    (image.href ? `<a href="${escapeHtml(image.href)}">${img}</a>` : img) +
+    `${captionHtml(caption)}</figure>`;
+}
+
+export function galleryCardHtml(rows: CardImage[][], caption?: string): string {
+  let html = '<figure class="kg-card kg-gallery-card kg-width-wide"><div class="kg-gallery-container">';
+  for (const row of rows) {
+    html += '<div class="kg-gallery-row">';
+    for (const image of row) {
+      html += `<div class="kg-gallery-image"><img src="${escapeHtml(image.src)}" loading="lazy" alt="${escapeHtml(image.alt || '')}"${dimensionAttributes(image)} /></div>`;
+    }
+    html += '</div>';
+  }
+  return `${html}</div>${captionHtml(caption)}</figure>`;
+}
+
+export function embedCardHtml(embedHtml: string, caption?: string): string {
+  return `<figure class="kg-card kg-embed-card">${embedHtml}${captionHtml(caption)}</figure>`;
+}
+
+export function videoCardHtml(video: VideoCard, caption?: string): string {
+  const poster = video.poster ? ` poster="${escapeHtml(video.poster)}"` : '';
+  const captionClass = caption && caption.trim() ? ' kg-card-hascaption' : '';
+  return `<figure class="kg-card kg-video-card${captionClass}"><div class="kg-video-container">` +
+    `<video src="${escapeHtml(video.src)}"${poster}${dimensionAttributes(video)} controls playsinline preload="metadata"></video>` +
+    `</div>${captionHtml(caption)}</figure>`;
+}
+
+export function audioCardHtml(audio: AudioCard): string {
+  const thumbnail = audio.thumbnail
+    ? `<img src="${escapeHtml(audio.thumbnail)}" alt="audio-thumbnail" class="kg-audio-thumbnail" />`
+    : '';
+  return `<div class="kg-card kg-audio-card">${thumbnail}<div class="kg-audio-player-container">` +
+    `<audio src="${escapeHtml(audio.src)}" controls preload="metadata"></audio>` +
+    `<div class="kg-audio-title">${escapeHtml(audio.title || '')}</div></div></div>`;
+}
+
+export function bookmarkCardHtml(bookmark: BookmarkCard, caption?: string): string {
+  let metadata = '';
+  if (bookmark.publisher) {
+    metadata += `<span class="kg-bookmark-publisher">${escapeHtml(bookmark.publisher)}</span>`;
+  }
+  if (bookmark.author) {
+    metadata += `<span class="kg-bookmark-author">${escapeHtml(bookmark.author)}</span>`;
+  }
+
+  const thumbnail = bookmark.thumbnail
+    ? `<div class="kg-bookmark-thumbnail"><img src="${escapeHtml(bookmark.thumbnail)}" alt="" /></div>`
+    : '';
+
+  return `<figure class="kg-card kg-bookmark-card"><a class="kg-bookmark-container" href="${escapeHtml(bookmark.url)}">` +
+    '<div class="kg-bookmark-content">' +
+    `<div class="kg-bookmark-title">${escapeHtml(bookmark.title)}</div>` +
+    `<div class="kg-bookmark-description">${escapeHtml(bookmark.description || '')}</div>` +
+    `<div class="kg-bookmark-metadata">${metadata}</div>` +
+    `</div>${thumbnail}</a>${captionHtml(caption)}</figure>`;
+}
+
+/**
+ * Group images into gallery rows. Tumblr's photoset layout ("132") gives the
+ * number of images per row; without one, images are laid out three per row.
+ */
+export function layoutGalleryRows<T>(images: T[], layout?: string): T[][] {
+  const rows: T[][] = [];
+  let index = 0;
+
+  const rowSizes = layout && /^[1-9]+$/.test(layout) ? layout.split('').map(Number) : [];
+  for (const size of rowSizes) {
+    if (index >= images.length) break;
+    rows.push(images.slice(index, index + Math.min(size, 3)));
+    index += Math.min(size, 3);
+  }
+
+  while (index < images.length) {
+    rows.push(images.slice(index, index + 3));
+    index += 3;
+  }
+
+  return rows;
+}
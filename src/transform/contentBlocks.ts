@@ -0,0 +1,466 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { detectEmbed } from './embeds';
+
+/**
+ * Editor-agnostic representation of a post body. HTML produced by the
+ * transformer is parsed into these blocks once, then rendered to either
+ * Mobiledoc or Lexical.
+ */
+
+export type InlineFormat = 'strong' | 'em' | 's' | 'u' | 'code' | 'sup' | 'sub';
+
+export interface InlineText {
+  type: 'text';
+  text: string;
+  formats: InlineFormat[];
+  href?: string;
+}
+
+export interface InlineBreak {
+  type: 'break';
+}
+
+export type InlineNode = InlineText | InlineBreak;
+
+export interface GalleryImage {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+  row: number;
+}
+
+export interface BookmarkMetadata {
+  title: string;
+  description: string;
+  thumbnail: string | null;
+  publisher: string | null;
+  author: string | null;
+  icon: string | null;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  src: string;
+  alt: string;
+  caption: string;
+  width?: number;
+  height?: number;
+  // Where the image links to, when it's wrapped in a link
+  href?: string;
+}
+
+export interface VideoBlock {
+  type: 'video';
+  src: string;
+  poster: string | null;
+  width?: number;
+  height?: number;
+  caption: string;
+}
+
+export interface AudioBlock {
+  type: 'audio';
+  src: string;
+  title: string;
+  thumbnail: string | null;
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: ListItem[];
+}
+
+// Lists nested in an item follow its text
+export interface ListItem {
+  children: InlineNode[];
+  lists: ListBlock[];
+}
+
+export type ContentBlock =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | ListBlock
+  | ImageBlock
+  | { type: 'gallery'; images: GalleryImage[]; caption: string }
+  | { type: 'embed'; html: string; url: string | null; embedType: 'video' | 'rich'; caption: string }
+  | VideoBlock
+  | AudioBlock
+  | { type: 'bookmark'; url: string; metadata: BookmarkMetadata; caption: string }
+  | { type: 'code'; code: string; language: string | null }
+  | { type: 'hr' }
+  | { type: 'html'; html: string };
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const CONTAINER_TAGS = ['div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'center'];
+const BLOCK_TAGS = [
+  'p', 'blockquote', 'ul', 'ol', 'figure', 'img', 'hr', 'pre', 'iframe', 'video', 'audio',
+  'object', 'embed', 'table', 'dl', ...HEADING_TAGS, ...CONTAINER_TAGS,
+];
+
+const MEDIA_SELECTOR = 'img, iframe, video, audio, object';
+
+const FORMAT_TAGS: Record<string, InlineFormat> = {
+  b: 'strong',
+  strong: 'strong',
+  i: 'em',
+  em: 'em',
+  s: 's',
+  strike: 's',
+  del: 's',
+  u: 'u',
+  code: 'code',
+  sup: 'sup',
+  sub: 'sub',
+};
+
+export function parseHtmlToBlocks(html: string): ContentBlock[] {
+  const $ = cheerio.load(html || '', null, false);
+  const blocks: ContentBlock[] = [];
+  collectBlocks($, $.root().contents().toArray(), blocks);
+  return blocks;
+}
+
+function collectBlocks($: cheerio.CheerioAPI, nodes: AnyNode[], blocks: ContentBlock[]): void {
+  // Loose inline content between block elements is gathered into a paragraph
+  let pending: AnyNode[] = [];
+
+  const flush = () => {
+    if (pending.length > 0) {
+      pushInlineBlock($, pending, blocks, children => ({ type: 'paragraph', children }));
+      pending = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'tag' && BLOCK_TAGS.includes((node as Element).name)) {
+      flush();
+      collectBlock($, node as Element, blocks);
+    } else if (node.type === 'text' || node.type === 'tag') {
+      pending.push(node);
+    }
+  }
+
+  flush();
+}
+
+function collectBlock($: cheerio.CheerioAPI, el: Element, blocks: ContentBlock[]): void {
+  const name = el.name;
+  const $el = $(el);
+
+  if (name === 'p') {
+    pushInlineBlock($, $el.contents().toArray(), blocks, children => ({ type: 'paragraph', children }));
+  } else if (HEADING_TAGS.includes(name)) {
+    const level = parseInt(name.slice(1), 10);
+    pushInlineBlock($, $el.contents().toArray(), blocks, children => ({ type: 'heading', level, children }));
+  } else if (name === 'blockquote') {
+    // A Ghost quote is one run of text, so quotes holding media or other quotes
+    // (like reblog trails) are kept verbatim rather than flattened
+    if ($el.find('blockquote, figure, img, iframe, video, audio').length > 0) {
+      blocks.push({ type: 'html', html: $.html(el) });
+    } else {
+      blocks.push({ type: 'quote', children: trimInline(collectQuoteInline($, el)) });
+    }
+  } else if (name === 'ul' || name === 'ol') {
+    const list = listBlock($, el);
+    if (list) blocks.push(list);
+  } else if (name === 'figure') {
+    collectFigure($, el, blocks);
+  } else if (name === 'img') {
+    const image = imageFromElement($, el, '');
+    if (image) blocks.push(image);
+  } else if (name === 'hr') {
+    blocks.push({ type: 'hr' });
+  } else if (name === 'pre') {
+    const code = $el.find('code').first();
+    const className = code.attr('class') || '';
+    const language = className.match(/language-(\S+)/)?.[1] || null;
+    blocks.push({ type: 'code', code: (code.length ? code : $el).text(), language });
+  } else if (['iframe', 'video', 'audio', 'object', 'embed'].includes(name)) {
+    blocks.push(embedBlock($.html(el), $el.attr('src') || null, ''));
+  } else if (name === 'div' && $el.hasClass('kg-audio-card')) {
+    const $audio = $el.find('audio').first();
+    if ($audio.attr('src')) {
+      blocks.push({
+        type: 'audio',
+        src: $audio.attr('src') as string,
+        title: $el.find('.kg-audio-title').text().trim(),
+        thumbnail: $el.find('img.kg-audio-thumbnail').attr('src') || null,
+      });
+    }
+  } else if (CONTAINER_TAGS.includes(name)) {
+    collectBlocks($, $el.contents().toArray(), blocks);
+  } else {
+    // Tables, definition lists and anything else we can't model are kept verbatim
+    blocks.push({ type: 'html', html: $.html(el) });
+  }
+}
+
+function listBlock($: cheerio.CheerioAPI, el: Element): ListBlock | null {
+  const items = $(el).children('li').toArray()
+    .map(li => {
+      // Nested lists become lists of their own rather than running into the item's text
+      const contents = $(li).contents().toArray();
+      const isList = (node: AnyNode) => node.type === 'tag' && ['ul', 'ol'].includes((node as Element).name);
+      return {
+        children: trimInline(collectInline($, contents.filter(node => !isList(node)))),
+        lists: contents.filter(isList).map(node => listBlock($, node as Element)).filter((list): list is ListBlock => !!list),
+      };
+    })
+    .filter(item => item.children.length > 0 || item.lists.length > 0);
+
+  return items.length > 0 ? { type: 'list', ordered: el.name === 'ol', items } : null;
+}
+
+function collectFigure($: cheerio.CheerioAPI, el: Element, blocks: ContentBlock[]): void {
+  const $el = $(el);
+  const caption = ($el.children('figcaption').html() || '').trim();
+
+  if ($el.hasClass('kg-gallery-card')) {
+    const images: GalleryImage[] = [];
+    $el.find('.kg-gallery-row').each((row, rowEl) => {
+      $(rowEl).find('img').each((_, img) => {
+        const image = imageFromElement($, img, '');
+        if (image) {
+          images.push({ src: image.src, alt: image.alt, width: image.width, height: image.height, row });
+        }
+      });
+    });
+    if (images.length > 0) {
+      blocks.push({ type: 'gallery', images, caption });
+    }
+    return;
+  }
+
+  if ($el.hasClass('kg-bookmark-card')) {
+    const $link = $el.find('a.kg-bookmark-container').first();
+    blocks.push({
+      type: 'bookmark',
+      url: $link.attr('href') || '',
+      metadata: {
+        title: $el.find('.kg-bookmark-title').text().trim(),
+        description: $el.find('.kg-bookmark-description').text().trim(),
+        thumbnail: $el.find('.kg-bookmark-thumbnail img').attr('src') || null,
+        publisher: $el.find('.kg-bookmark-publisher').text().trim() || null,
+        author: $el.find('.kg-bookmark-author').text().trim() || null,
+        icon: $el.find('.kg-bookmark-icon').attr('src') || null,
+      },
+      caption,
+    });
+    return;
+  }
+
+  if ($el.hasClass('kg-video-card')) {
+    const $video = $el.find('video').first();
+    if ($video.attr('src')) {
+      blocks.push({
+        type: 'video',
+        src: $video.attr('src') as string,
+        poster: $video.attr('poster') || null,
+        width: parseDimension($video.attr('width')),
+        height: parseDimension($video.attr('height')),
+        caption,
+      });
+    }
+    return;
+  }
+
+  if ($el.hasClass('kg-embed-card') || $el.find('iframe, video, audio, object').length > 0) {
+    const $content = $el.clone();
+    $content.children('figcaption').remove();
+    const $frame = $el.find('iframe, video, audio').first();
+    blocks.push(embedBlock(($content.html() || '').trim(), $frame.attr('src') || null, caption));
+    return;
+  }
+
+  const images = $el.find('img').toArray();
+  if (images.length === 1) {
+    const image = imageFromElement($, images[0], caption);
+    if (image) blocks.push(image);
+  } else if (images.length > 1) {
+    images.forEach((img, index) => {
+      const image = imageFromElement($, img, index === images.length - 1 ? caption : '');
+      if (image) blocks.push(image);
+    });
+  } else {
+    blocks.push({ type: 'html', html: $.html(el) });
+  }
+}
+
+// Embeds from known providers are stored with their page URL, as Ghost's oEmbed lookup would
+function embedBlock(html: string, src: string | null, caption: string): ContentBlock {
+  const embed = src ? detectEmbed(src) : null;
+  return { type: 'embed', html, url: embed?.url || src, embedType: embed?.type || 'rich', caption };
+}
+
+function imageFromElement($: cheerio.CheerioAPI, el: AnyNode, caption: string): ImageBlock | null {
+  const $img = $(el);
+  const src = $img.attr('src');
+  if (!src || src.startsWith('data:')) {
+    return null;
+  }
+
+  return {
+    type: 'image',
+    src,
+    alt: $img.attr('alt') || '',
+    caption,
+    width: parseDimension($img.attr('width') || $img.attr('data-orig-width')),
+    height: parseDimension($img.attr('height') || $img.attr('data-orig-height')),
+    href: $img.closest('a[href]').attr('href'),
+  };
+}
+
+function parseDimension(value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Push an inline block, lifting any images or embeds found inside it into
+ * their own blocks (Tumblr frequently wraps media in paragraphs). The text
+ * is split around the media so everything stays in order.
+ */
+function pushInlineBlock(
+  $: cheerio.CheerioAPI,
+  nodes: AnyNode[],
+  blocks: ContentBlock[],
+  create: (children: InlineNode[]) => ContentBlock,
+): void {
+  const wrapper = $('<div></div>');
+  nodes.forEach(node => wrapper.append($(node).clone()));
+
+  for (const part of splitAroundMedia($, wrapper.contents().toArray())) {
+    if (Array.isArray(part)) {
+      const children = trimInline(collectInline($, part));
+      if (children.length > 0) blocks.push(create(children));
+    } else {
+      collectBlock($, part, blocks);
+    }
+  }
+}
+
+/**
+ * Split inline nodes into runs of text and the media elements between them.
+ * Elements holding media are split too, each piece keeping the element's
+ * formatting; the media stay in place, so they can still find their link.
+ */
+function splitAroundMedia($: cheerio.CheerioAPI, nodes: AnyNode[]): (AnyNode[] | Element)[] {
+  const parts: (AnyNode[] | Element)[] = [[]];
+  const current = () => parts[parts.length - 1] as AnyNode[];
+
+  for (const node of nodes) {
+    const $node = $(node);
+    if (node.type !== 'tag') {
+      current().push(node);
+    } else if ($node.is(MEDIA_SELECTOR)) {
+      parts.push(node as Element, []);
+    } else if ($node.find(MEDIA_SELECTOR).length === 0) {
+      current().push(node);
+    } else {
+      for (const part of splitAroundMedia($, $node.contents().toArray())) {
+        if (!Array.isArray(part)) {
+          parts.push(part, []);
+        } else if (part.length > 0) {
+          current().push($node.clone().empty().append(part).get(0) as AnyNode);
+        }
+      }
+    }
+  }
+
+  return parts;
+}
+
+function collectQuoteInline($: cheerio.CheerioAPI, el: Element): InlineNode[] {
+  // Ghost blockquotes are a single markup section, so paragraphs become line breaks
+  const result: InlineNode[] = [];
+  for (const child of $(el).contents().toArray()) {
+    const isBlock = child.type === 'tag' && BLOCK_TAGS.includes((child as Element).name);
+    const inline = isBlock
+      ? collectInline($, $(child).contents().toArray())
+      : collectInline($, [child]);
+    if (isBlock && result.length > 0 && inline.length > 0) {
+      result.push({ type: 'break' });
+    }
+    result.push(...inline);
+  }
+  return result;
+}
+
+export function collectInline(
+  $: cheerio.CheerioAPI,
+  nodes: AnyNode[],
+  formats: InlineFormat[] = [],
+  href?: string,
+): InlineNode[] {
+  const result: InlineNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      const text = (node as unknown as { data: string }).data.replace(/\s+/g, ' ');
+      if (text) {
+        result.push({ type: 'text', text, formats, href });
+      }
+      continue;
+    }
+
+    if (node.type !== 'tag') continue;
+
+    const el = node as Element;
+    const children = $(el).contents().toArray();
+
+    if (el.name === 'br') {
+      result.push({ type: 'break' });
+    } else if (el.name === 'a') {
+      result.push(...collectInline($, children, formats, $(el).attr('href') || href));
+    } else if (FORMAT_TAGS[el.name]) {
+      const format = FORMAT_TAGS[el.name];
+      const nextFormats = formats.includes(format) ? formats : [...formats, format];
+      result.push(...collectInline($, children, nextFormats, href));
+    } else if (el.name !== 'script' && el.name !== 'style') {
+      result.push(...collectInline($, children, formats, href));
+    }
+  }
+
+  return mergeAdjacentText(result);
+}
+
+function mergeAdjacentText(nodes: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = [];
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (
+      node.type === 'text' && previous?.type === 'text' &&
+      previous.href === node.href && previous.formats.join() === node.formats.join()
+    ) {
+      previous.text += node.text;
+    } else {
+      merged.push(node.type === 'text' ? { ...node } : node);
+    }
+  }
+  return merged;
+}
+
+function trimInline(nodes: InlineNode[]): InlineNode[] {
+  const result = nodes.slice();
+
+  while (result.length > 0 && result[0].type === 'break') result.shift();
+  while (result.length > 0 && result[result.length - 1].type === 'break') result.pop();
+
+  const first = result[0];
+  if (first?.type === 'text') {
+    first.text = first.text.replace(/^\s+/, '');
+    if (!first.text) return trimInline(result.slice(1));
+  }
+
+  const last = result[result.length - 1];
+  if (last?.type === 'text') {
+    last.text = last.text.replace(/\s+$/, '');
+    if (!last.text) return trimInline(result.slice(0, -1));
+  }
+
+  return result;
+}
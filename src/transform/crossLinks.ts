@@ -0,0 +1,176 @@
+import * as cheerio from 'cheerio';
+import { TumblrPost } from '../api/tumblr';
+import { GhostPost } from './formatPost';
+
+// Only the fields links are matched on, so posts migrated in earlier runs can be linked to
+export interface LinkedPost {
+  source: Pick<TumblrPost, 'id' | 'slug' | 'short_url' | 'post_url' | 'blog_name'>;
+  post: Pick<GhostPost, 'slug' | 'status'>;
+}
+
+export interface UnresolvedLink {
+  // Ghost id of the post containing the link
+  postId: string;
+  href: string;
+}
+
+export interface CrossLinkResult {
+  html: string;
+  rewritten: number;
+  unresolved: UnresolvedLink[];
+}
+
+/**
+ * Rewrites links between posts of the migrated blogs so they point at the
+ * migrated Ghost posts instead of Tumblr. Links are matched by post id,
+ * by the blog and slug when the id is unknown, and by short URL. Links to
+ * posts of the blog that weren't migrated, or that won't be published on
+ * Ghost, are left alone and reported.
+ */
+export class CrossLinkRewriter {
+  private byId = new Map<string, LinkedPost['post']>();
+  private bySlug = new Map<string, LinkedPost['post']>();
+  private byShortUrl = new Map<string, LinkedPost['post']>();
+  private hosts = new Set<string>();
+  private blogNames = new Set<string>();
+
+  constructor(posts: LinkedPost[], blogNames: string[] = []) {
+    for (const { source, post } of posts) {
+      // Where the post can be linked at: its post URL's host and its blog's
+      const hosts = new Set<string>();
+      const postHost = this.hostOf(source.post_url);
+      if (postHost) hosts.add(postHost);
+      if (source.blog_name) hosts.add(this.addBlogName(source.blog_name));
+      hosts.forEach(host => this.hosts.add(host));
+
+      // Drafts and scheduled posts have no public URL to link to
+      if (post.status !== 'published') continue;
+
+      this.byId.set(String(source.id), post);
+      if (source.slug) {
+        // Blogs combined into one site can use the same slugs
+        hosts.forEach(host => this.bySlug.set(this.slugKey(host, source.slug as string), post));
+      }
+      if (source.short_url) this.byShortUrl.set(this.normalizeUrl(source.short_url), post);
+    }
+
+    for (const blogName of blogNames) {
+      this.addBlogName(blogName);
+    }
+  }
+
+  rewrite(post: GhostPost): CrossLinkResult {
+    const html = post.html || '';
+    const result: CrossLinkResult = { html, rewritten: 0, unresolved: [] };
+    if (!html.includes('href')) return result;
+
+    const $ = cheerio.load(html, null, false);
+    $('a[href]').each((_, element) => {
+      const $link = $(element);
+      const href = $link.attr('href') || '';
+      const match = this.resolve(href);
+
+      if (match === undefined) return;
+      if (match === null) {
+        result.unresolved.push({ postId: post.id, href });
+        return;
+      }
+
+      const hash = this.parseUrl(href)?.hash || '';
+      $link.attr('href', `/${match.slug}/${hash}`);
+      result.rewritten++;
+    });
+
+    if (result.rewritten > 0) {
+      result.html = $.html();
+    }
+    return result;
+  }
+
+  /**
+   * The migrated post a link points at, null if it points at a post of these
+   * blogs that wasn't migrated, or undefined if it isn't a link to them.
+   */
+  private resolve(href: string): LinkedPost['post'] | null | undefined {
+    const url = this.parseUrl(href);
+    if (!url) return undefined;
+
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const segments = url.pathname.split('/').filter(Boolean).map(segment => this.decode(segment));
+
+    if (host === 'tmblr.co') {
+      // Short links don't say which blog they belong to, so only known ones count
+      return this.byShortUrl.get(this.normalizeUrl(href));
+    }
+
+    let id: string | undefined;
+    let slug: string | undefined;
+    let blogHost = host;
+
+    if (this.hosts.has(host) && segments[0] === 'post') {
+      // blog.tumblr.com/post/<id>/<slug>
+      [, id, slug] = segments;
+    } else if (host === 'tumblr.com' && this.blogNames.has((segments[0] || '').toLowerCase()) && /^\d+$/.test(segments[1] || '')) {
+      // www.tumblr.com/<blog>/<id>/<slug>
+      [, id, slug] = segments;
+      blogHost = `${segments[0].toLowerCase()}.tumblr.com`;
+    } else if (host === 'tumblr.com' && segments[0] === 'blog' && segments[1] === 'view' && this.blogNames.has((segments[2] || '').toLowerCase())) {
+      // www.tumblr.com/blog/view/<blog>/<id>
+      id = segments[3];
+    } else {
+      return undefined;
+    }
+
+    if (!id) return undefined;
+    return this.byId.get(id) || (slug ? this.bySlug.get(this.slugKey(blogHost, slug)) : undefined) || null;
+  }
+
+  // Registers a blog's names and returns the host its posts live on
+  private addBlogName(blogName: string): string {
+    const name = blogName.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    let host: string;
+    if (name.endsWith('.tumblr.com')) {
+      host = name;
+      this.blogNames.add(name.replace(/\.tumblr\.com$/, ''));
+    } else if (name.includes('.')) {
+      // A custom domain
+      host = name.replace(/^www\./, '');
+    } else {
+      host = `${name}.tumblr.com`;
+      this.blogNames.add(name);
+    }
+    this.hosts.add(host);
+    return host;
+  }
+
+  private slugKey(host: string, slug: string): string {
+    return `${host}/${slug.toLowerCase()}`;
+  }
+
+  private decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+
+  private hostOf(value: string | undefined): string | null {
+    return this.parseUrl(value)?.hostname.toLowerCase().replace(/^www\./, '') || null;
+  }
+
+  private normalizeUrl(value: string): string {
+    const url = this.parseUrl(value);
+    return url ? `${url.hostname.toLowerCase()}${url.pathname.replace(/\/+$/, '')}` : value;
+  }
+
+  private parseUrl(value: string | undefined): URL | null {
+    if (!value) return null;
+    try {
+      // Protocol-relative links are common in Tumblr themes and posts
+      return new URL(value.startsWith('//') ? `https:${value}` : value);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { escapeHtml } from '../utils/html';
+import { audioCardHtml, bookmarkCardHtml, embedCardHtml, videoCardHtml } from './cards';
+
+/**
+ * Recognises media from well-known providers by URL alone, so posts can be
+ * given the embed Ghost would have fetched over oEmbed without any network
+ * access. Works with both page URLs and the providers' own player URLs.
+ */
+
+export interface ProviderEmbed {
+  provider: string;
+  // The page URL, as Ghost stores it on embed cards
+  url: string;
+  // Ghost distinguishes video embeds from other rich content
+  type: 'video' | 'rich';
+  html: string;
+}
+
+export type MediaKind = 'video' | 'audio';
+
+export interface MediaDetails {
+  caption?: string;
+  // Shown on bookmark and audio cards
+  title?: string;
+  poster?: string;
+  width?: number;
+  height?: number;
+}
+
+type ProviderMatcher = (url: URL) => ProviderEmbed | null;
+
+const IFRAME_ALLOW = 'autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture';
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm'];
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'ogg', 'oga', 'wav'];
+
+const providers: ProviderMatcher[] = [youtube, vimeo, spotify, soundcloud];
+
+export function detectEmbed(url: string): ProviderEmbed | null {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    return null;
+  }
+
+  for (const match of providers) {
+    const embed = match(parsed);
+    if (embed) return embed;
+  }
+  return null;
+}
+
+/**
+ * Whether a URL is a video or audio file hosted by Tumblr itself, which
+ * becomes a Ghost video or audio card rather than an embed.
+ */
+export function tumblrMediaKind(url: string): MediaKind | null {
+  const parsed = parseUrl(url);
+  if (!parsed || !/(^|\.)tumblr\.com$/.test(parsed.hostname)) {
+    return null;
+  }
+
+  const extension = parsed.pathname.split('.').pop()?.toLowerCase() || '';
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+  // Tumblr's video CDN doesn't always use extensions
+  return /^(va|vt|ve)\.media\.tumblr\.com$|^vtt\.tumblr\.com$/.test(parsed.hostname) ? 'video' : null;
+}
+
+/**
+ * The card for a piece of media known only by its URL: an embed for known
+ * providers, a video or audio card for Tumblr-hosted files, and a bookmark
+ * for anything else.
+ */
+export function mediaCardHtml(url: string, kind: MediaKind, details: MediaDetails = {}): string {
+  const embed = detectEmbed(url);
+  if (embed) {
+    return embedCardHtml(embed.html, details.caption);
+  }
+
+  if (tumblrMediaKind(url) === kind) {
+    return kind === 'video'
+      ? videoCardHtml({ src: url, poster: details.poster, width: details.width, height: details.height }, details.caption)
+      : audioCardHtml({ src: url, title: details.title, thumbnail: details.poster });
+  }
+
+  return bookmarkCardHtml({ url, title: details.title || hostnameOf(url), thumbnail: details.poster }, details.caption);
+}
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+function youtube(url: URL): ProviderEmbed | null {
+  const host = url.hostname.replace(/^(www|m|music)\./, '');
+  let id: string | null = null;
+
+  if (host === 'youtu.be') {
+    id = url.pathname.slice(1);
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    id = url.searchParams.get('v') || url.pathname.match(/^\/(?:embed|shorts|v|live)\/([^/]+)/)?.[1] || null;
+  }
+  if (!id || !/^[\w-]{11}$/.test(id)) {
+    return null;
+  }
+
+  const start = parseStart(url.searchParams.get('t') || url.searchParams.get('start'));
+  const src = `https://www.youtube.com/embed/${id}?feature=oembed${start ? `&start=${start}` : ''}`;
+  return {
+    provider: 'youtube',
+    url: `https://www.youtube.com/watch?v=${id}`,
+    type: 'video',
+    html: iframeHtml(src, 560, 315),
+  };
+}
+
+function vimeo(url: URL): ProviderEmbed | null {
+  let id: string | undefined;
+  let hash: string | null = null;
+
+  if (url.hostname === 'player.vimeo.com') {
+    id = url.pathname.match(/^\/video\/(\d+)/)?.[1];
+    hash = url.searchParams.get('h');
+  } else if (/^(www\.)?vimeo\.com$/.test(url.hostname)) {
+    // vimeo.com/123, vimeo.com/channels/staffpicks/123 and private links with a hash
+    const match = url.pathname.match(/\/(\d+)(?:\/([0-9a-f]+))?\/?$/);
+    id = match?.[1];
+    hash = match?.[2] || null;
+  }
+  if (!id) {
+    return null;
+  }
+
+  const src = `https://player.vimeo.com/video/${id}${hash ? `?h=${hash}` : ''}`;
+  return {
+    provider: 'vimeo',
+    url: `https://vimeo.com/${id}${hash ? `/${hash}` : ''}`,
+    type: 'video',
+    html: iframeHtml(src, 640, 360),
+  };
+}
+
+function spotify(url: URL): ProviderEmbed | null {
+  let kind: string | undefined;
+  let id: string | undefined;
+
+  if (url.protocol === 'spotify:') {
+    // spotify:track:4uLU6hMCjMI75M1A2tKUQC
+    [kind, id] = url.pathname.split(':');
+  } else if (url.hostname === 'open.spotify.com') {
+    const match = url.pathname.match(/^(?:\/intl-[\w-]+)?(?:\/embed)?\/(track|album|playlist|episode|show|artist)\/(\w+)/);
+    kind = match?.[1];
+    id = match?.[2];
+  }
+  if (!kind || !id || !['track', 'album', 'playlist', 'episode', 'show', 'artist'].includes(kind)) {
+    return null;
+  }
+
+  // Single tracks and episodes get Spotify's compact player
+  const height = kind === 'track' || kind === 'episode' ? 152 : 352;
+  return {
+    provider: 'spotify',
+    url: `https://open.spotify.com/${kind}/${id}`,
+    type: 'rich',
+    html: iframeHtml(`https://open.spotify.com/embed/${kind}/${id}`, '100%', height),
+  };
+}
+
+function soundcloud(url: URL): ProviderEmbed | null {
+  let page: string | null = null;
+
+  if (url.hostname === 'w.soundcloud.com' && url.pathname.startsWith('/player')) {
+    page = url.searchParams.get('url');
+  } else if (/^(www\.|m\.)?soundcloud\.com$/.test(url.hostname) && url.pathname.split('/').filter(Boolean).length >= 2) {
+    page = `https://soundcloud.com${url.pathname.replace(/\/$/, '')}`;
+  }
+  if (!page) {
+    return null;
+  }
+
+  const playlist = /\/(sets|playlists)\//.test(page);
+  return {
+    provider: 'soundcloud',
+    url: page,
+    type: 'rich',
+    html: iframeHtml(
+      `https://w.soundcloud.com/player/?url=${encodeURIComponent(page)}&show_artwork=true`,
+      '100%',
+      playlist ? 450 : 166,
+    ),
+  };
+}
+
+function iframeHtml(src: string, width: number | string, height: number): string {
+  return `<iframe src="${escapeHtml(src)}" width="${width}" height="${height}" frameborder="0" allow="${IFRAME_ALLOW}" allowfullscreen></iframe>`;
+}
+
+// YouTube start times come as seconds ("90") or durations ("1m30s")
+function parseStart(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) || null;
+  }
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds] = match.map(part => parseInt(part || '0', 10));
+  return hours * 3600 + minutes * 60 + seconds || null;
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url.trim().startsWith('//') ? `https:${url.trim()}` : url.trim());
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,165 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { isReblog, postType } from '../api/filters';
+import { NpfImageBlock, TumblrPost } from '../api/tumblr';
+import { htmlImageSources } from '../utils/html';
+import { largestMedia, npfFirstImage } from './npf';
+import { ReblogMode, trailFirstImage } from './reblogs';
+import { largestPhotoSize } from './renderers';
+
+/**
+ * Which image becomes a post's feature image:
+ * - first: the first image, which stays in the body as well
+ * - move: the first image, taken out of the body so themes don't show it twice
+ * - largest: the image with the most pixels
+ * - photo: the first image, for photo posts only
+ * - none: no feature images
+ */
+export type FeatureImagePolicy = 'first' | 'move' | 'largest' | 'photo' | 'none';
+
+export const FEATURE_IMAGE_POLICIES: FeatureImagePolicy[] = ['first', 'move', 'largest', 'photo', 'none'];
+
+export interface FeatureImage {
+  url: string;
+  alt: string | null;
+  // HTML, like Ghost's image captions
+  caption: string | null;
+}
+
+// Ghost's limit for feature image alt text
+const MAX_ALT_LENGTH = 191;
+
+/**
+ * Pick a post's feature image by policy, with alt text and caption from
+ * the matching image in the body. With 'move' the image is taken out of
+ * the body, so the returned HTML can differ from the HTML passed in.
+ */
+export function selectFeatureImage(
+  post: TumblrPost,
+  html: string,
+  policy: FeatureImagePolicy,
+  reblogs: ReblogMode,
+): { image: FeatureImage | null; html: string } {
+  const $ = cheerio.load(html, null, false);
+  let url: string | null;
+
+  switch (policy) {
+    case 'none':
+      return { image: null, html };
+    case 'photo':
+      url = postType(post) === 'photo' ? firstImageUrl(post, reblogs) : null;
+      break;
+    case 'largest':
+      url = largestImageUrl(post, $) || firstImageUrl(post, reblogs);
+      break;
+    case 'move': {
+      const moved = leadingImage($);
+      if (moved) {
+        const image = describeImage($, moved.img, moved.img.attribs.src);
+        $(moved.container).remove();
+        return { image, html: $.html().trim() || '<p></p>' };
+      }
+      // Images further into the post, in galleries or in quoted reblogs stay where they are
+      url = firstImageUrl(post, reblogs);
+      break;
+    }
+    default:
+      url = firstImageUrl(post, reblogs);
+  }
+
+  if (!url) {
+    return { image: null, html };
+  }
+  const img = $('img').toArray().find(el => el.attribs.src === url);
+  const image = img ? describeImage($, img, url) : { url, alt: null, caption: null };
+  // Photos in a photoset keep their own captions only on Tumblr's side
+  return { image: { ...image, caption: image.caption || photoCaption(post, url) }, html };
+}
+
+function firstImageUrl(post: TumblrPost, reblogs: ReblogMode): string | null {
+  // A quoted trail is part of the post, so its images can stand in for missing ones of our own
+  if (reblogs === 'trail' && isReblog(post)) {
+    const image = npfFirstImage(post.content || [])?.url || trailFirstImage(post);
+    if (image) {
+      return image;
+    }
+  }
+
+  if (post.content && post.content.length > 0) {
+    return npfFirstImage(post.content)?.url || null;
+  }
+
+  // Try to extract the first image from the body
+  const bodyImage = htmlImageSources(post.body || '')[0];
+  if (bodyImage) {
+    return bodyImage;
+  }
+
+  // Fallback to photos array if available
+  if (post.photos && post.photos.length > 0) {
+    return largestPhotoSize(post.photos[0]).url;
+  }
+
+  // Video, audio and link posts carry their own preview images
+  return post.thumbnail_url || post.album_art || post.link_image || null;
+}
+
+// The image with the most pixels among NPF image blocks, photos and sized images in the body
+function largestImageUrl(post: TumblrPost, $: cheerio.CheerioAPI): string | null {
+  const candidates: Array<{ url: string; area: number }> = [];
+
+  for (const block of (post.content || []).filter((item): item is NpfImageBlock => item.type === 'image')) {
+    const media = largestMedia(block.media);
+    if (media) candidates.push({ url: media.url, area: (media.width || 0) * (media.height || 0) });
+  }
+  for (const photo of post.photos || []) {
+    const size = largestPhotoSize(photo);
+    candidates.push({ url: size.url, area: size.width * size.height });
+  }
+  for (const img of $('img').toArray()) {
+    const area = (parseInt(img.attribs.width, 10) || 0) * (parseInt(img.attribs.height, 10) || 0);
+    if (img.attribs.src && !img.attribs.src.startsWith('data:')) candidates.push({ url: img.attribs.src, area });
+  }
+
+  const largest = candidates.reduce<{ url: string; area: number } | null>(
+    (best, candidate) => (candidate.area > (best?.area || 0) ? candidate : best),
+    null,
+  );
+  return largest?.url || null;
+}
+
+/**
+ * The image the body opens with, if it stands on its own: an image card or
+ * a lone image at the top level, with the element that holds it.
+ */
+function leadingImage($: cheerio.CheerioAPI): { img: Element; container: Element } | null {
+  const first = $.root().children().first();
+  if (first.length === 0) {
+    return null;
+  }
+
+  const images = first.is('img') ? first : first.find('img');
+  const standalone = first.is('img, figure.kg-image-card') || (first.is('p') && !first.text().trim());
+  if (!standalone || images.length !== 1 || !images.attr('src') || images.attr('src')?.startsWith('data:')) {
+    return null;
+  }
+  return { img: images.get(0) as Element, container: first.get(0) as Element };
+}
+
+function describeImage($: cheerio.CheerioAPI, img: Element, url: string): FeatureImage {
+  const alt = (img.attribs.alt || '').trim();
+  // Gallery captions describe the whole gallery, not its first image
+  const $figure = $(img).closest('figure.kg-image-card');
+  const caption = ($figure.children('figcaption').html() || '').trim();
+
+  return {
+    url,
+    alt: alt ? alt.slice(0, MAX_ALT_LENGTH) : null,
+    caption: caption || null,
+  };
+}
+
+function photoCaption(post: TumblrPost, url: string): string | null {
+  const photo = (post.photos || []).find(item => largestPhotoSize(item).url === url);
+  return photo?.caption?.trim() || null;
+}
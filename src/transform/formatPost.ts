@@ -1,6 +1,16 @@
-import { format } from 'date-fns';
+import { isReblog, postType } from '../api/filters';
 import { TumblrPost } from '../api/tumblr';
-import { v4 as uuidv4 } from 'uuid';
+import { stableUuid } from '../utils/ids';
+import { SlugRegistry, slugify } from '../utils/slug';
+import { parseHtmlToBlocks } from './contentBlocks';
+import { FeatureImagePolicy, selectFeatureImage } from './featureImage';
+import { LexicalBuilder } from './lexical';
+import { MobiledocBuilder } from './mobiledoc';
+import { describeOutcome, PostOutcome } from './outcome';
+import { ReblogMode, renderReblogHtml } from './reblogs';
+import { renderPostHtml } from './renderers';
+import { sanitizeHtml, SanitizeOptions } from './sanitize';
+import { chooseExcerpt, chooseTitle, DEFAULT_TITLE_STRATEGIES, ExcerptStrategy, TitleStrategy } from './titles';
 
 export interface GhostPost {
   id: string;
@@ -8,16 +18,19 @@ export interface GhostPost {
   title: string;
   slug: string;
   mobiledoc: string | null;
+  lexical: string | null;
   html: string | null;
   comment_id: string | null;
   feature_image: string | null;
+  feature_image_alt: string | null;
+  feature_image_caption: string | null;
   featured: number;
   type: string;
   status: string;
   locale: string | null;
   visibility: string;
   email_recipient_filter: string;
-  published_at: string;
+  published_at: string | null;
   created_at: string;
   updated_at: string;
   custom_excerpt: string | null;
@@ -35,376 +48,216 @@ export interface AuthorConfig {
   slug: string;
 }
 
-// Mobiledoc interfaces for proper structure
-interface MobiledocMarkup {
-  tag: string;
-  attributes?: Record<string, string>;
+export type ContentFormat = 'mobiledoc' | 'lexical';
+
+// How Tumblr private posts are carried over: unpublished, or published to members only
+export type PrivatePostMode = 'draft' | 'members' | 'paid';
+
+export interface TransformOptions {
+  // Editor format to generate alongside the HTML (defaults to mobiledoc)
+  contentFormat?: ContentFormat;
+  privatePosts?: PrivatePostMode;
+  // Quote the reblog trail (default) or keep only the reblogger's commentary
+  reblogs?: ReblogMode;
+  // Markup kept in post bodies; see sanitizeHtml
+  sanitize?: SanitizeOptions;
+  // Title strategies to try in order (defaults to DEFAULT_TITLE_STRATEGIES)
+  titles?: TitleStrategy[];
+  // Longest title the 'characters' strategy makes
+  titleLength?: number;
+  // Where custom excerpts come from, in order of preference; none by default
+  excerpts?: ExcerptStrategy[];
+  // Post types whose title and feature image are hidden on the post page
+  hiddenTitleTypes?: string[];
+  // Which image becomes the feature image (defaults to the first)
+  featureImages?: FeatureImagePolicy;
 }
 
-interface MobiledocAtom {
-  name: string;
-  text: string;
-  payload: Record<string, any>;
-}
-
-interface MobiledocCard {
-  name: string;
-  payload: Record<string, any>;
-}
-
-interface MobiledocSection {
-  type: number; // 1 = markup, 10 = image, 11 = card
-  tag?: string;
-  content?: any[];
-  payload?: Record<string, any>;
-}
-
-interface Mobiledoc {
-  version: string;
-  atoms: MobiledocAtom[];
-  cards: MobiledocCard[];
-  markups: MobiledocMarkup[];
-  sections: MobiledocSection[];
-}
-
-// Standalone utility function to strip HTML tags
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, '');
+// Tumblr ids are numeric strings too long for a number
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || a.localeCompare(b);
 }
 
 export class PostTransformer {
   private authorConfig?: AuthorConfig;
+  private options: Required<TransformOptions>;
 
-  constructor(authorConfig?: AuthorConfig) {
+  constructor(authorConfig?: AuthorConfig, options: TransformOptions = {}) {
     this.authorConfig = authorConfig;
+    this.options = {
+      contentFormat: options.contentFormat || 'mobiledoc',
+      privatePosts: options.privatePosts || 'draft',
+      reblogs: options.reblogs || 'trail',
+      sanitize: options.sanitize || {},
+      titles: options.titles?.length ? options.titles : DEFAULT_TITLE_STRATEGIES,
+      titleLength: options.titleLength || 60,
+      excerpts: options.excerpts || [],
+      hiddenTitleTypes: options.hiddenTitleTypes || [],
+      featureImages: options.featureImages || 'first',
+    };
   }
 
   transform(tumblrPost: TumblrPost): GhostPost {
-    const timestamp = new Date(tumblrPost.timestamp * 1000);
-    const timestampString = timestamp.toISOString().replace('T', ' ').replace('Z', '');
-    
+    return this.transformWithOutcome(tumblrPost).post;
+  }
+
+  /**
+   * Transform a post and describe how it went: which title strategy was
+   * used, what media it has, and anything that couldn't be carried over.
+   */
+  transformWithOutcome(tumblrPost: TumblrPost): { post: GhostPost; outcome: PostOutcome } {
+    const { title, strategy } = this.chooseTitle(tumblrPost);
+    const post = this.buildPost(tumblrPost, title, strategy);
+    const policy = this.options.featureImages;
+    const type = postType(tumblrPost);
+    const featureImages = policy !== 'none' && (policy !== 'photo' || type === 'photo');
+    return { post, outcome: describeOutcome(tumblrPost, post, strategy, featureImages) };
+  }
+
+  private buildPost(tumblrPost: TumblrPost, title: string, strategy: TitleStrategy): GhostPost {
+    const timestampString = this.formatTimestamp(tumblrPost.timestamp);
+    const { image, html } = selectFeatureImage(
+      tumblrPost,
+      this.convertToHtml(tumblrPost),
+      this.options.featureImages,
+      this.options.reblogs,
+    );
+    const type = postType(tumblrPost);
+    // Untitled posts only have a placeholder to show
+    const showTitle = strategy !== 'untitled' && !this.options.hiddenTitleTypes.includes(type);
+
     return {
       id: tumblrPost.id.toString(),
-      uuid: uuidv4(),
-      title: this.extractTitle(tumblrPost),
-      slug: this.generateSlug(tumblrPost),
-      mobiledoc: null, // Set to null as in the example
-      html: this.convertToHtml(tumblrPost),
+      uuid: stableUuid(`tumblr-post:${tumblrPost.id}`),
+      title,
+      slug: this.generateSlug(tumblrPost, title, strategy),
+      ...this.buildContent(html),
+      html,
       comment_id: tumblrPost.id.toString(),
-      feature_image: this.extractFeatureImage(tumblrPost),
+      feature_image: image?.url || null,
+      feature_image_alt: image?.alt || null,
+      feature_image_caption: image?.caption || null,
       featured: 0,
       type: 'post',
-      status: 'published',
       locale: null,
-      visibility: 'public',
       email_recipient_filter: 'all',
-      published_at: timestampString,
+      ...this.publishState(tumblrPost, timestampString),
       created_at: timestampString,
       updated_at: timestampString,
-      custom_excerpt: null,
+      custom_excerpt: chooseExcerpt(tumblrPost, html, this.options.excerpts),
       codeinjection_head: null,
       codeinjection_foot: null,
       custom_template: null,
       canonical_url: null,
       newsletter_id: null,
-      show_title_and_feature_image: 1,
+      show_title_and_feature_image: showTitle ? 1 : 0,
     };
   }
 
-  private extractTitle(tumblrPost: TumblrPost): string {
-    // 1. Use the Tumblr title field (if present)
-    if (tumblrPost.title && tumblrPost.title.trim()) {
-      return tumblrPost.title.trim();
-    }
-
-    // 2. If no title, use the first sentence or 6–12 words of the post body text
-    if (tumblrPost.body && tumblrPost.body.trim()) {
-      const plainText = stripHtml(tumblrPost.body);
-      const decodedText = this.decodeHtmlEntities(plainText);
-      
-      // Try to get the first sentence
-      const firstSentence = this.extractFirstSentence(decodedText);
-      if (firstSentence && firstSentence.length > 10) {
-        return firstSentence;
-      }
-      
-      // If no good sentence, get first 8-10 words
-      const firstWords = this.extractFirstWords(decodedText, 10);
-      if (firstWords && firstWords.length > 5) {
-        return firstWords;
-      }
-    }
-
-    // 3. If body is empty or minimal, fall back to post slug
-    if (tumblrPost.slug && tumblrPost.slug.trim()) {
-      const humanizedSlug = this.humanizeSlug(tumblrPost.slug);
-      const truncatedSlug = this.truncateToWords(humanizedSlug, 12);
-      if (truncatedSlug.length > 5) {
-        return truncatedSlug;
-      }
-    }
-
-    // 4. Fallback: Use formatted post date
-    const timestamp = new Date(tumblrPost.timestamp * 1000);
-    const dateString = timestamp.toISOString().split('T')[0]; // YYYY-MM-DD format
-    return `Post from ${dateString}`;
+  /**
+   * Replace a transformed post's HTML, regenerating its editor document.
+   * Used by passes that rewrite content after the initial transform.
+   */
+  withHtml(post: GhostPost, html: string): GhostPost {
+    return { ...post, html, ...this.buildContent(html) };
   }
 
-  // Helper to convert Tumblr gallery HTML to Ghost gallery HTML
-  private convertTumblrGalleryToGhostGallery(body: string): string {
-    // More robust regex: match <div ... class="...npf_row..." ...> ... </div>
-    const rowRegex = /<div[^>]*class=["'][^"']*npf_row[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi;
-    let match;
-    const galleryRows: string[][] = [];
-    let lastIndex = 0;
-    let galleryFound = false;
-    let galleryStart = -1;
-    let rowCount = 0;
-
-    // Find all rows and extract image srcs, preserving row structure
-    while ((match = rowRegex.exec(body)) !== null) {
-      if (!galleryFound) galleryStart = match.index;
-      galleryFound = true;
-      rowCount++;
-      const rowHtml = match[1];
-      // Find all <img ...> in this row, regardless of nesting
-      const imgRegex = /<img [^>]*src=["']([^"']+)["'][^>]*>/gi;
-      let imgMatch;
-      const rowImages: string[] = [];
-      while ((imgMatch = imgRegex.exec(rowHtml)) !== null) {
-        rowImages.push(imgMatch[1]);
-      }
-      if (rowImages.length > 0) {
-        galleryRows.push(rowImages);
-      }
-      lastIndex = rowRegex.lastIndex;
-    }
-
-    // Debug: log the number of rows found for this post
-    if (galleryFound) {
-      // eslint-disable-next-line no-console
-      console.log(`[Ghostify] Found ${rowCount} gallery rows in post body.`);
-    }
-
-    // Build Ghost gallery HTML if we found a gallery
-    let galleryHtml = '';
-    if (galleryFound && galleryRows.length > 0) {
-      // Ghost galleries require 2-3 images per row, so we need to combine single-image rows
-      const ghostRows: string[][] = [];
-      let currentRow: string[] = [];
-      
-      for (const tumblrRow of galleryRows) {
-        // Add all images from this Tumblr row to our current Ghost row
-        currentRow.push(...tumblrRow);
-        
-        // If we have 2 or 3 images, create a Ghost row
-        if (currentRow.length >= 2 && currentRow.length <= 3) {
-          ghostRows.push([...currentRow]);
-          currentRow = [];
-        }
-        // If we have more than 3 images, split into multiple rows
-        else if (currentRow.length > 3) {
-          // Take first 3 images for this row
-          ghostRows.push(currentRow.slice(0, 3));
-          // Keep remaining images for next row
-          currentRow = currentRow.slice(3);
-        }
-        // If we have 1 image, continue to next Tumblr row to try to get more images
-      }
-      
-      // Handle any remaining images (should be 0 or 1)
-      if (currentRow.length === 1) {
-        // Single image left - add it to the last row if it has 2 images, otherwise let Ghost handle it
-        if (ghostRows.length > 0 && ghostRows[ghostRows.length - 1].length === 2) {
-          ghostRows[ghostRows.length - 1].push(currentRow[0]);
-        } else {
-          // Let Ghost handle the single image naturally
-          ghostRows.push([currentRow[0]]);
+  /**
+   * Map the Tumblr post state onto Ghost's status, visibility and publish date.
+   * Queued posts stay scheduled only while their publish time is in the future.
+   */
+  private publishState(tumblrPost: TumblrPost, timestamp: string): Pick<GhostPost, 'status' | 'visibility' | 'published_at'> {
+    switch (tumblrPost.state) {
+      case 'private':
+        if (this.options.privatePosts === 'draft') {
+          return { status: 'draft', visibility: 'public', published_at: null };
         }
-      }
-      
-      // Build the HTML
-      galleryHtml += '<figure class="kg-card kg-gallery-card kg-width-wide"><div class="kg-gallery-container">';
-      for (const row of ghostRows) {
-        galleryHtml += '<div class="kg-gallery-row">';
-        for (const imgSrc of row) {
-          galleryHtml += `<div class="kg-gallery-image"><img src="${imgSrc}" loading="lazy" alt="" /></div>`;
+        return { status: 'published', visibility: this.options.privatePosts, published_at: timestamp };
+      case 'draft':
+        return { status: 'draft', visibility: 'public', published_at: null };
+      case 'queued': {
+        const scheduled = tumblrPost.scheduled_publish_time;
+        if (scheduled && scheduled * 1000 > Date.now()) {
+          return { status: 'scheduled', visibility: 'public', published_at: this.formatTimestamp(scheduled) };
         }
-        galleryHtml += '</div>';
-      }
-      galleryHtml += '</div></figure>';
-    }
-
-    // Extract text before the first gallery (if any)
-    let textBefore = '';
-    if (galleryFound && galleryStart > 0) {
-      textBefore = body.slice(0, galleryStart);
-    } else if (!galleryFound) {
-      textBefore = body;
-    }
-
-    // Extract text after the last gallery (if any)
-    let textAfter = '';
-    if (galleryFound && lastIndex < body.length) {
-      textAfter = body.slice(lastIndex);
-    }
-
-    // Compose final HTML
-    let html = '';
-    if (textBefore.trim()) html += textBefore;
-    if (galleryHtml) html += galleryHtml;
-    if (textAfter.trim()) html += textAfter;
-    return html || '<p></p>';
-  }
-
-  private convertToHtml(tumblrPost: TumblrPost): string {
-    // Treat all posts the same: convert galleries, preserve rest of HTML
-    const body = tumblrPost.body || '';
-    return this.convertTumblrGalleryToGhostGallery(body);
-  }
-
-  private extractImagesFromHtml(html: string): string[] {
-    const images: string[] = [];
-    const imgRegex = /<img[^>]+src=["']([^"']+)["'][^>]*>/gi;
-    let match;
-    
-    while ((match = imgRegex.exec(html)) !== null) {
-      const src = match[1];
-      if (src && !src.startsWith('data:')) {
-        images.push(src);
+        return { status: 'draft', visibility: 'public', published_at: null };
       }
+      default:
+        return { status: 'published', visibility: 'public', published_at: timestamp };
     }
-    
-    return images;
   }
 
-  private extractTextFromHtml(html: string): string {
-    // Remove all img tags and their content
-    let text = html.replace(/<img[^>]*>/gi, '');
-    return text.trim();
+  private formatTimestamp(seconds: number): string {
+    return new Date(seconds * 1000).toISOString().replace('T', ' ').replace('Z', '');
   }
 
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
-  }
+  // Ghost imports whichever editor document is present, so only one is emitted
+  private buildContent(html: string): Pick<GhostPost, 'mobiledoc' | 'lexical'> {
+    const blocks = parseHtmlToBlocks(html);
 
-  private extractFeatureImage(tumblrPost: TumblrPost): string | null {
-    // Try to extract the first image from the body
-    if (tumblrPost.body) {
-      const images = this.extractImagesFromHtml(tumblrPost.body);
-      if (images.length > 0) {
-        return images[0];
-      }
+    if (this.options.contentFormat === 'lexical') {
+      return { mobiledoc: null, lexical: JSON.stringify(LexicalBuilder.build(blocks)) };
     }
-    
-    // Fallback to photos array if available
-    if (tumblrPost.photos && tumblrPost.photos.length > 0) {
-      return tumblrPost.photos[0].original_size.url;
-    }
-    
-    return null;
-  }
 
-  private humanizeSlug(slug: string): string {
-    return slug
-      .replace(/-/g, ' ')
-      .replace(/\b\w/g, l => l.toUpperCase())
-      .trim();
+    return { mobiledoc: JSON.stringify(MobiledocBuilder.build(blocks)), lexical: null };
   }
 
-  private generateSlug(tumblrPost: TumblrPost): string {
-    // Use the existing slug if available
-    if (tumblrPost.slug) {
-      return tumblrPost.slug;
-    }
-    
-    // Otherwise generate from title
-    const title = this.extractTitle(tumblrPost);
-    return this.slugify(title);
+  private chooseTitle(tumblrPost: TumblrPost): { title: string; strategy: TitleStrategy } {
+    return chooseTitle(tumblrPost, this.options.titles, { characters: this.options.titleLength });
   }
 
-  private slugify(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/-+/g, '-')
-      .trim();
-  }
+  private convertToHtml(tumblrPost: TumblrPost): string {
+    const reblogHtml = isReblog(tumblrPost) ? renderReblogHtml(tumblrPost, this.options.reblogs) : null;
 
-  private truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength).trim() + '...';
+    // NPF layouts already map to Ghost cards; legacy bodies get their photosets converted while cleaning
+    const html = reblogHtml ?? renderPostHtml(tumblrPost);
+    return sanitizeHtml(html, this.options.sanitize) || '<p></p>';
   }
 
-  private decodeHtmlEntities(text: string): string {
-    const entities: Record<string, string> = {
-      '&amp;': '&',
-      '&lt;': '<',
-      '&gt;': '>',
-      '&quot;': '"',
-      '&#39;': "'",
-      '&apos;': "'",
-      '&nbsp;': ' ',
-      '&hellip;': '...',
-      '&mdash;': '—',
-      '&ndash;': '–',
-      '&lsquo;': "'",
-      '&rsquo;': "'",
-      '&ldquo;': '"',
-      '&rdquo;': '"'
-    };
-    
-    return text.replace(/&[a-zA-Z0-9#]+;/g, (match) => {
-      return entities[match] || match;
-    });
+  private generateSlug(tumblrPost: TumblrPost, title: string, strategy: TitleStrategy): string {
+    // Use the existing slug if available, otherwise generate from title.
+    // Both can be empty once non-Latin text is dropped, so fall back to the id.
+    return slugify(tumblrPost.slug || '')
+      || (strategy === 'untitled' ? '' : slugify(title))
+      || `post-${tumblrPost.id}`;
   }
 
-  private extractFirstSentence(text: string): string {
-    // Remove extra whitespace and normalize
-    const cleanText = text.trim().replace(/\s+/g, ' ');
-    
-    // Look for sentence endings: . ! ? followed by space or end of string
-    const sentenceMatch = cleanText.match(/^[^.!?]*[.!?](?:\s|$)/);
-    if (sentenceMatch) {
-      const sentence = sentenceMatch[0].trim();
-      // Ensure it's not too short (likely not a real sentence)
-      if (sentence.length > 10 && sentence.split(' ').length > 3) {
-        return sentence;
+  /**
+   * Make slugs unique across a batch, and against any slugs reserved in the
+   * registry. Posts are handled oldest first, so the post that had a slug
+   * first keeps it and adding newer posts later never renames older ones.
+   */
+  assignUniqueSlugs<T extends Pick<GhostPost, 'id' | 'slug' | 'created_at'>>(
+    posts: T[],
+    registry: SlugRegistry = new SlugRegistry(),
+  ): T[] {
+    const order = posts
+      .map((post, index) => ({ post, index }))
+      .sort((a, b) => a.post.created_at.localeCompare(b.post.created_at) || compareIds(a.post.id, b.post.id));
+
+    const result = posts.slice();
+    for (const { post, index } of order) {
+      const slug = registry.claim(post.slug);
+      if (slug !== post.slug) {
+        result[index] = { ...post, slug };
       }
     }
-    
-    return '';
+    return result;
   }
 
-  private extractFirstWords(text: string, maxWords: number): string {
-    // Remove extra whitespace and normalize
-    const cleanText = text.trim().replace(/\s+/g, ' ');
-    
-    // Split into words and take the first maxWords
-    const words = cleanText.split(/\s+/).slice(0, maxWords);
-    
-    // Filter out very short words (likely not meaningful)
-    const meaningfulWords = words.filter(word => word.length > 1);
-    
-    if (meaningfulWords.length >= 3) {
-      return meaningfulWords.join(' ');
-    }
-    
-    return '';
-  }
+  extractTags(tumblrPost: TumblrPost): string[] {
+    // Trim and drop empty or repeated tags while keeping Tumblr's order
+    const seen = new Set<string>();
+    const tags: string[] = [];
 
-  private truncateToWords(text: string, maxWords: number): string {
-    const words = text.split(/\s+/);
-    if (words.length <= maxWords) {
-      return text;
+    for (const tag of tumblrPost.tags || []) {
+      const name = tag.trim();
+      if (name && !seen.has(name.toLowerCase())) {
+        seen.add(name.toLowerCase());
+        tags.push(name);
+      }
     }
-    
-    return words.slice(0, maxWords).join(' ');
+
+    return tags;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,214 @@
+import path from 'path';
+import { ContentBlock, InlineFormat, InlineNode, InlineText, ListBlock } from './contentBlocks';
+
+// Nodes carry their own fields besides type and version, which depend on the type
+export interface LexicalNode {
+  type: string;
+  version: number;
+  [field: string]: unknown;
+}
+
+// Paragraphs, headings, lists, links and the root hold other nodes
+export interface LexicalElementNode extends LexicalNode {
+  children: LexicalNode[];
+  direction: 'ltr' | null;
+  format: string;
+  indent: number;
+}
+
+export interface Lexical {
+  root: LexicalElementNode;
+}
+
+// Lexical text format bit flags
+const FORMAT_FLAGS: Record<InlineFormat, number> = {
+  strong: 1,
+  em: 2,
+  s: 4,
+  u: 8,
+  code: 16,
+  sub: 32,
+  sup: 64,
+};
+
+/**
+ * Renders content blocks as a Ghost 5 Lexical document.
+ */
+export class LexicalBuilder {
+  static build(blocks: ContentBlock[]): Lexical {
+    const builder = new LexicalBuilder();
+    return {
+      root: {
+        ...builder.element('root'),
+        children: blocks.map(block => builder.buildBlock(block)),
+      },
+    };
+  }
+
+  private buildBlock(block: ContentBlock): LexicalNode {
+    switch (block.type) {
+      case 'paragraph':
+        return { ...this.element('paragraph'), children: this.buildInline(block.children) };
+      case 'heading':
+        return { ...this.element('heading'), tag: `h${block.level}`, children: this.buildInline(block.children) };
+      case 'quote':
+        return { ...this.element('quote'), children: this.buildInline(block.children) };
+      case 'list':
+        return this.buildList(block, 0);
+      case 'image':
+        return {
+          type: 'image',
+          version: 1,
+          src: block.src,
+          width: block.width ?? null,
+          height: block.height ?? null,
+          title: '',
+          alt: block.alt,
+          caption: block.caption,
+          cardWidth: 'regular',
+          href: block.href || '',
+        };
+      case 'gallery':
+        return {
+          type: 'gallery',
+          version: 1,
+          images: block.images.map(image => ({
+            row: image.row,
+            src: image.src,
+            width: image.width ?? null,
+            height: image.height ?? null,
+            alt: image.alt,
+            caption: '',
+            fileName: path.basename(image.src.split('?')[0]),
+          })),
+          caption: block.caption,
+        };
+      case 'embed':
+        return {
+          type: 'embed',
+          version: 1,
+          url: block.url || '',
+          embedType: block.embedType,
+          html: block.html,
+          metadata: {},
+          caption: block.caption,
+        };
+      case 'video':
+        return {
+          type: 'video',
+          version: 1,
+          src: block.src,
+          fileName: path.basename(block.src.split('?')[0]),
+          width: block.width ?? null,
+          height: block.height ?? null,
+          thumbnailSrc: block.poster || '',
+          caption: block.caption,
+          loop: false,
+          cardWidth: 'regular',
+        };
+      case 'audio':
+        return {
+          type: 'audio',
+          version: 1,
+          src: block.src,
+          title: block.title,
+          thumbnailSrc: block.thumbnail || '',
+        };
+      case 'bookmark':
+        return {
+          type: 'bookmark',
+          version: 1,
+          url: block.url,
+          metadata: block.metadata,
+          caption: block.caption,
+        };
+      case 'code':
+        return { type: 'codeblock', version: 1, code: block.code, language: block.language || '', caption: '' };
+      case 'hr':
+        return { type: 'horizontalrule', version: 1 };
+      case 'html':
+        return { type: 'html', version: 1, html: block.html };
+    }
+  }
+
+  /**
+   * Lexical nests a list in an item of its own after the item it belongs
+   * to, and records the depth as the items' indent.
+   */
+  private buildList(list: ListBlock, indent: number): LexicalElementNode {
+    const items: LexicalNode[] = [];
+    for (const item of list.items) {
+      if (item.children.length > 0) {
+        items.push({ ...this.element('listitem'), indent, value: items.length + 1, children: this.buildInline(item.children) });
+      }
+      for (const nested of item.lists) {
+        items.push({ ...this.element('listitem'), indent, value: items.length + 1, children: [this.buildList(nested, indent + 1)] });
+      }
+    }
+
+    return {
+      ...this.element('list'),
+      listType: list.ordered ? 'number' : 'bullet',
+      start: 1,
+      tag: list.ordered ? 'ol' : 'ul',
+      children: items,
+    };
+  }
+
+  private buildInline(nodes: InlineNode[]): LexicalNode[] {
+    // Consecutive text runs sharing a link are grouped under one link node
+    const children: LexicalNode[] = [];
+    let currentLink: LexicalElementNode | null = null;
+
+    for (const node of nodes) {
+      if (node.type === 'break') {
+        currentLink = null;
+        children.push({ type: 'linebreak', version: 1 });
+        continue;
+      }
+
+      const textNode = this.text(node);
+      if (!node.href) {
+        currentLink = null;
+        children.push(textNode);
+      } else if (currentLink && currentLink.url === node.href) {
+        currentLink.children.push(textNode);
+      } else {
+        currentLink = {
+          ...this.element('link'),
+          rel: null,
+          target: null,
+          title: null,
+          url: node.href,
+          children: [textNode],
+        };
+        children.push(currentLink);
+      }
+    }
+
+    return children;
+  }
+
+  private text(node: InlineText): LexicalNode {
+    return {
+      detail: 0,
+      format: node.formats.reduce((flags, format) => flags | FORMAT_FLAGS[format], 0),
+      mode: 'normal',
+      style: '',
+      text: node.text,
+      type: 'extended-text',
+      version: 1,
+    };
+  }
+
+  private element(type: string): LexicalElementNode {
+    return {
+      children: [],
+      direction: 'ltr',
+      format: '',
+      indent: 0,
+      type,
+      version: 1,
+    };
+  }
+}
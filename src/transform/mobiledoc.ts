@@ -0,0 +1,208 @@
+import path from 'path';
+import { ContentBlock, InlineNode, InlineText, ListBlock } from './contentBlocks';
+
+// Mobiledoc interfaces for proper structure
+type MobiledocMarkup = [string] | [string, string[]];
+// Card and atom payloads are plain JSON whose shape depends on the card
+type MobiledocPayload = Record<string, unknown>;
+type MobiledocAtom = [string, string, MobiledocPayload];
+type MobiledocCard = [string, MobiledocPayload];
+type MobiledocMarker = [number, number[], number, string | number];
+
+type MobiledocSection =
+  | [1, string, MobiledocMarker[]] // markup section
+  | [3, string, MobiledocMarker[][]] // list section
+  | [10, number]; // card section
+
+export interface Mobiledoc {
+  version: string;
+  ghostVersion: string;
+  atoms: MobiledocAtom[];
+  cards: MobiledocCard[];
+  markups: MobiledocMarkup[];
+  sections: MobiledocSection[];
+}
+
+const MOBILEDOC_VERSION = '0.3.1';
+const GHOST_VERSION = '4.0';
+
+/**
+ * Renders content blocks as a Mobiledoc 0.3.1 document using Ghost's card names.
+ */
+export class MobiledocBuilder {
+  private doc: Mobiledoc = {
+    version: MOBILEDOC_VERSION,
+    ghostVersion: GHOST_VERSION,
+    atoms: [],
+    cards: [],
+    markups: [],
+    sections: [],
+  };
+
+  private markupIndex = new Map<string, number>();
+
+  static build(blocks: ContentBlock[]): Mobiledoc {
+    const builder = new MobiledocBuilder();
+    blocks.forEach(block => builder.addBlock(block));
+    return builder.doc;
+  }
+
+  private addBlock(block: ContentBlock): void {
+    switch (block.type) {
+      case 'paragraph':
+        this.doc.sections.push([1, 'p', this.buildMarkers(block.children)]);
+        break;
+      case 'heading':
+        this.doc.sections.push([1, `h${block.level}`, this.buildMarkers(block.children)]);
+        break;
+      case 'quote':
+        this.doc.sections.push([1, 'blockquote', this.buildMarkers(block.children)]);
+        break;
+      case 'list':
+        this.doc.sections.push([
+          3,
+          block.ordered ? 'ol' : 'ul',
+          flattenList(block).map(item => this.buildMarkers(item)),
+        ]);
+        break;
+      case 'image':
+        this.addCard('image', {
+          src: block.src,
+          alt: block.alt,
+          title: '',
+          caption: block.caption,
+          width: block.width,
+          height: block.height,
+          cardWidth: '',
+          href: block.href,
+        });
+        break;
+      case 'gallery':
+        this.addCard('gallery', {
+          images: block.images.map(image => ({
+            fileName: path.basename(image.src.split('?')[0]),
+            row: image.row,
+            src: image.src,
+            alt: image.alt,
+            width: image.width,
+            height: image.height,
+          })),
+          caption: block.caption,
+        });
+        break;
+      case 'embed':
+        this.addCard('embed', {
+          url: block.url,
+          html: block.html,
+          type: block.embedType,
+          caption: block.caption,
+        });
+        break;
+      case 'video':
+        this.addCard('video', {
+          src: block.src,
+          fileName: path.basename(block.src.split('?')[0]),
+          width: block.width,
+          height: block.height,
+          thumbnailSrc: block.poster || undefined,
+          caption: block.caption,
+          loop: false,
+        });
+        break;
+      case 'audio':
+        this.addCard('audio', {
+          src: block.src,
+          title: block.title,
+          thumbnailSrc: block.thumbnail || undefined,
+        });
+        break;
+      case 'bookmark':
+        this.addCard('bookmark', {
+          url: block.url,
+          metadata: block.metadata,
+          caption: block.caption,
+        });
+        break;
+      case 'code':
+        this.addCard('code', { code: block.code, language: block.language || undefined });
+        break;
+      case 'hr':
+        this.addCard('hr', {});
+        break;
+      case 'html':
+        this.addCard('html', { html: block.html });
+        break;
+    }
+  }
+
+  private addCard(name: string, payload: MobiledocPayload): void {
+    this.doc.cards.push([name, payload]);
+    this.doc.sections.push([10, this.doc.cards.length - 1]);
+  }
+
+  private buildMarkers(nodes: InlineNode[]): MobiledocMarker[] {
+    // Each node carries the full stack of markups that applies to it. A marker
+    // opens whatever its predecessor didn't leave open, and closes whatever
+    // its successor doesn't share.
+    const stacks = nodes.map(node => (node.type === 'text' ? this.markupStack(node) : []));
+    const markers: MobiledocMarker[] = [];
+
+    nodes.forEach((node, index) => {
+      const stack = stacks[index];
+      const keptFromPrevious = index > 0 ? commonPrefixLength(stacks[index - 1], stack) : 0;
+      const keptForNext = index < nodes.length - 1 ? commonPrefixLength(stack, stacks[index + 1]) : 0;
+      const opened = stack.slice(keptFromPrevious);
+      const closed = stack.length - keptForNext;
+
+      if (node.type === 'break') {
+        markers.push([1, opened, closed, this.addAtom('soft-return', '', {})]);
+      } else {
+        markers.push([0, opened, closed, node.text]);
+      }
+    });
+
+    return markers;
+  }
+
+  private markupStack(node: InlineText): number[] {
+    // Links wrap formatting so a link spanning mixed formats stays a single markup
+    const stack: number[] = [];
+    if (node.href) {
+      stack.push(this.getMarkup(['a', ['href', node.href]]));
+    }
+    for (const format of node.formats) {
+      stack.push(this.getMarkup([format]));
+    }
+    return stack;
+  }
+
+  private getMarkup(markup: MobiledocMarkup): number {
+    const key = JSON.stringify(markup);
+    let index = this.markupIndex.get(key);
+    if (index === undefined) {
+      index = this.doc.markups.push(markup) - 1;
+      this.markupIndex.set(key, index);
+    }
+    return index;
+  }
+
+  private addAtom(name: string, text: string, payload: MobiledocPayload): number {
+    return this.doc.atoms.push([name, text, payload]) - 1;
+  }
+}
+
+// Mobiledoc lists can't nest, so nested items follow their parent as items of their own
+function flattenList(list: ListBlock): InlineNode[][] {
+  return list.items.flatMap(item => [
+    ...(item.children.length > 0 ? [item.children] : []),
+    ...item.lists.flatMap(flattenList),
+  ]);
+}
+
+function commonPrefixLength(a: number[], b: number[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
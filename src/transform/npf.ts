@@ -0,0 +1,379 @@
+import {
+  NpfAudioBlock,
+  NpfContentBlock,
+  NpfFormatting,
+  NpfImageBlock,
+  NpfLayout,
+  NpfLinkBlock,
+  NpfMedia,
+  NpfPollBlock,
+  NpfTextBlock,
+  NpfVideoBlock,
+} from '../api/tumblr';
+import { escapeHtml } from '../utils/html';
+import {
+  audioCardHtml,
+  bookmarkCardHtml,
+  CardImage,
+  embedCardHtml,
+  galleryCardHtml,
+  imageCardHtml,
+  layoutGalleryRows,
+  videoCardHtml,
+} from './cards';
+import { mediaCardHtml } from './embeds';
+
+/**
+ * Renders Neue Post Format content blocks and their layout as Ghost HTML.
+ */
+
+type ListTag = 'ul' | 'ol';
+
+// Formatting tags in nesting order, outermost first
+const FORMAT_ORDER: NpfFormatting['type'][] = ['link', 'mention', 'bold', 'italic', 'strikethrough', 'small'];
+
+// Block types renderBlock knows how to render
+const RENDERED_BLOCKS: string[] = ['text', 'image', 'link', 'audio', 'video', 'poll'];
+
+export function renderNpfHtml(content: NpfContentBlock[], layout: NpfLayout[] = []): string {
+  const askLayout = layout.find(entry => entry.type === 'ask');
+  const askBlocks = new Set(askLayout?.blocks || []);
+  const rows = layoutRows(content, layout).filter(row => row.some(index => !askBlocks.has(index)));
+
+  let html = '';
+  if (askLayout && askBlocks.size > 0) {
+    html += renderAsk(content, askLayout);
+  }
+
+  let imageRows: NpfImageBlock[][] = [];
+  let listItems: NpfTextBlock[] = [];
+
+  const flushImages = () => {
+    if (imageRows.length > 0) {
+      html += renderImages(imageRows);
+      imageRows = [];
+    }
+  };
+  const flushList = () => {
+    if (listItems.length > 0) {
+      html += renderList(listItems);
+      listItems = [];
+    }
+  };
+
+  for (const row of rows) {
+    const blocks = row.filter(index => !askBlocks.has(index)).map(index => content[index]).filter(Boolean);
+    if (blocks.length === 0) continue;
+
+    // Consecutive image-only rows become one gallery, keeping Tumblr's rows
+    if (blocks.every(block => block.type === 'image')) {
+      flushList();
+      imageRows.push(blocks as NpfImageBlock[]);
+      continue;
+    }
+
+    flushImages();
+    for (const block of blocks) {
+      if (block.type === 'text' && isListItem(block)) {
+        listItems.push(block);
+        continue;
+      }
+      flushList();
+      html += renderBlock(block);
+    }
+  }
+
+  flushImages();
+  flushList();
+  return html;
+}
+
+/**
+ * Plain text of all text blocks, used for titles and excerpts.
+ */
+export function npfPlainText(content: NpfContentBlock[]): string {
+  return content
+    .filter((block): block is NpfTextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+}
+
+/**
+ * A heading block that opens the post is its title in all but name.
+ */
+export function npfLeadingHeading(content: NpfContentBlock[]): string | null {
+  const first = content[0];
+  if (first?.type === 'text' && (first.subtype === 'heading1' || first.subtype === 'heading2')) {
+    return first.text.trim() || null;
+  }
+  return null;
+}
+
+/**
+ * Types of blocks in the content that renderNpfHtml has to drop.
+ */
+export function unsupportedNpfBlocks(content: NpfContentBlock[]): string[] {
+  return content.map(block => block.type).filter(type => !RENDERED_BLOCKS.includes(type));
+}
+
+export function npfFirstImage(content: NpfContentBlock[]): NpfMedia | null {
+  const image = content.find((block): block is NpfImageBlock => block.type === 'image');
+  return image ? largestMedia(image.media) : null;
+}
+
+export function largestMedia(media: NpfMedia[]): NpfMedia | null {
+  if (!media || media.length === 0) return null;
+  return media.reduce((largest, item) => ((item.width || 0) > (largest.width || 0) ? item : largest));
+}
+
+function layoutRows(content: NpfContentBlock[], layout: NpfLayout[]): number[][] {
+  const rowsLayout = layout.find(entry => entry.type === 'rows');
+  const rows: number[][] = (rowsLayout?.display || []).map(row => row.blocks);
+
+  // Blocks the layout doesn't mention are rendered in order after it
+  const placed = new Set(rows.flat());
+  content.forEach((_, index) => {
+    if (!placed.has(index)) rows.push([index]);
+  });
+
+  return rows;
+}
+
+function renderBlock(block: NpfContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return renderText(block);
+    case 'image':
+      return renderImages([[block]]);
+    case 'link':
+      return renderLink(block);
+    case 'audio':
+      return renderAudio(block);
+    case 'video':
+      return renderVideo(block);
+    case 'poll':
+      return renderPoll(block);
+    default:
+      return '';
+  }
+}
+
+function renderAsk(content: NpfContentBlock[], askLayout: NpfLayout): string {
+  const asker = askLayout.attribution?.blog;
+  const askerHtml = asker
+    ? `<a href="${escapeHtml(asker.url)}">${escapeHtml(asker.name)}</a>`
+    : 'Anonymous';
+
+  const question = (askLayout.blocks || [])
+    .map(index => content[index])
+    .filter(Boolean)
+    .map(block => (block.type === 'text' ? formatText(block) : ''))
+    .filter(Boolean)
+    .join('<br>');
+
+  return `<blockquote><p><strong>${askerHtml}</strong> asked: ${question}</p></blockquote>`;
+}
+
+function renderText(block: NpfTextBlock): string {
+  const text = formatText(block);
+  if (!text) return '';
+
+  switch (block.subtype) {
+    // Ghost uses <h1> for the post title, so NPF headings start at <h2>
+    case 'heading1':
+      return `<h2>${text}</h2>`;
+    case 'heading2':
+      return `<h3>${text}</h3>`;
+    case 'quote':
+    case 'indented':
+      return `<blockquote>${text}</blockquote>`;
+    case 'chat':
+      return `<p><code>${text}</code></p>`;
+    default:
+      return `<p>${text}</p>`;
+  }
+}
+
+function isListItem(block: NpfTextBlock): boolean {
+  return block.subtype === 'ordered-list-item' || block.subtype === 'unordered-list-item';
+}
+
+function renderList(items: NpfTextBlock[]): string {
+  // Stack of open lists; nesting follows each item's indent_level
+  const stack: ListTag[] = [];
+  let html = '';
+
+  for (const item of items) {
+    const tag: ListTag = item.subtype === 'ordered-list-item' ? 'ol' : 'ul';
+    const depth = (item.indent_level || 0) + 1;
+
+    while (stack.length > depth) {
+      html += `</li></${stack.pop()}>`;
+    }
+
+    if (stack.length === depth && stack[stack.length - 1] !== tag) {
+      html += `</li></${stack.pop()}>`;
+    }
+
+    if (stack.length === depth) {
+      html += '</li>';
+    }
+
+    while (stack.length < depth) {
+      stack.push(tag);
+      html += `<${tag}>`;
+      if (stack.length < depth) html += '<li>';
+    }
+
+    html += `<li>${formatText(item)}`;
+  }
+
+  while (stack.length > 0) {
+    html += `</li></${stack.pop()}>`;
+  }
+
+  return html;
+}
+
+function renderImages(rows: NpfImageBlock[][]): string {
+  const blocks = rows.flat();
+  if (blocks.length === 1) {
+    const image = toCardImage(blocks[0]);
+    return image ? imageCardHtml(image, blocks[0].caption) : '';
+  }
+
+  const imageRows: CardImage[][] = rows.map(row => row.map(toCardImage).filter((image): image is CardImage => !!image));
+
+  // Ghost gallery rows hold at most three images
+  const galleryRows = imageRows.flatMap(row => layoutGalleryRows(row));
+  return galleryRows.length > 0 ? galleryCardHtml(galleryRows) : '';
+}
+
+function toCardImage(block: NpfImageBlock): CardImage | null {
+  const media = largestMedia(block.media);
+  if (!media) return null;
+  return { src: media.url, width: media.width, height: media.height, alt: block.alt_text || '' };
+}
+
+function renderLink(block: NpfLinkBlock): string {
+  return bookmarkCardHtml({
+    url: block.url,
+    title: block.title || block.display_url || block.url,
+    description: block.description,
+    publisher: block.site_name,
+    author: block.author,
+    thumbnail: block.poster ? largestMedia(block.poster)?.url : undefined,
+  });
+}
+
+function renderAudio(block: NpfAudioBlock): string {
+  const track = [block.artist, block.title].filter(Boolean).join(' – ');
+  const thumbnail = block.poster ? largestMedia(block.poster)?.url : undefined;
+
+  // Audio uploaded to Tumblr
+  if (block.media?.url) {
+    return audioCardHtml({ src: block.media.url, title: track, thumbnail });
+  }
+
+  const url = block.url || block.embed_url;
+  if (url) {
+    return mediaCardHtml(url, 'audio', { caption: escapeHtml(track), title: track || undefined, poster: thumbnail });
+  }
+  if (block.embed_html) {
+    return embedCardHtml(block.embed_html, escapeHtml(track));
+  }
+  return '';
+}
+
+function renderVideo(block: NpfVideoBlock): string {
+  const poster = block.poster ? largestMedia(block.poster)?.url : undefined;
+
+  // Video uploaded to Tumblr
+  if (block.media?.url) {
+    return videoCardHtml({ src: block.media.url, poster, width: block.media.width, height: block.media.height });
+  }
+
+  const url = block.url || block.embed_iframe?.url || block.embed_url;
+  if (url) {
+    return mediaCardHtml(url, 'video', { poster });
+  }
+  if (block.embed_html) {
+    return embedCardHtml(block.embed_html);
+  }
+  return '';
+}
+
+function renderPoll(block: NpfPollBlock): string {
+  const answers = block.answers.map(answer => `<li>${escapeHtml(answer.answer_text)}</li>`).join('');
+  return `<p><strong>${escapeHtml(block.question)}</strong></p><ul>${answers}</ul>`;
+}
+
+/**
+ * Apply NPF formatting ranges to a text block's text. Ranges are given in
+ * Unicode code points, so the text is split into code points first.
+ */
+function formatText(block: NpfTextBlock): string {
+  const chars = Array.from(block.text || '');
+  const formatting = (block.formatting || []).filter(range => FORMAT_ORDER.includes(range.type));
+
+  const boundaries = new Set<number>([0, chars.length]);
+  for (const range of formatting) {
+    boundaries.add(Math.max(0, Math.min(range.start, chars.length)));
+    boundaries.add(Math.max(0, Math.min(range.end, chars.length)));
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  // Each segment gets the ordered list of opening tags that apply to it
+  const segments: Array<{ text: string; tags: string[] }> = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const active = formatting.filter(range => range.start <= start && range.end >= end);
+    const tags = FORMAT_ORDER
+      .map(type => active.find(range => range.type === type))
+      .filter((range): range is NpfFormatting => !!range)
+      .map(openingTag)
+      .filter(Boolean);
+    segments.push({ text: chars.slice(start, end).join(''), tags });
+  }
+
+  let html = '';
+  let open: string[] = [];
+  for (const segment of segments) {
+    let shared = 0;
+    while (shared < open.length && shared < segment.tags.length && open[shared] === segment.tags[shared]) {
+      shared++;
+    }
+    html += open.slice(shared).reverse().map(closingTag).join('');
+    html += segment.tags.slice(shared).join('');
+    html += escapeHtml(segment.text).replace(/\n/g, '<br>');
+    open = segment.tags;
+  }
+  html += open.slice().reverse().map(closingTag).join('');
+
+  return html;
+}
+
+function openingTag(range: NpfFormatting): string {
+  switch (range.type) {
+    case 'link':
+      return range.url ? `<a href="${escapeHtml(range.url)}">` : '';
+    case 'mention':
+      return range.blog?.url ? `<a href="${escapeHtml(range.blog.url)}">` : '';
+    case 'bold':
+      return '<strong>';
+    case 'italic':
+      return '<em>';
+    case 'strikethrough':
+      return '<s>';
+    case 'small':
+      return '<small>';
+    default:
+      return '';
+  }
+}
+
+function closingTag(openTag: string): string {
+  const name = openTag.match(/^<(\w+)/)?.[1];
+  return name ? `</${name}>` : '';
+}
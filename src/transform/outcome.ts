@@ -0,0 +1,110 @@
+import { isReblog, postType } from '../api/filters';
+import { TumblrPost } from '../api/tumblr';
+import { htmlToText } from '../utils/html';
+import { GhostPost } from './formatPost';
+import { unsupportedNpfBlocks } from './npf';
+import { hasNpfTrail, unsupportedTrailBlocks } from './reblogs';
+import { hasRenderer } from './renderers';
+import { TitleStrategy } from './titles';
+
+export interface MediaCounts {
+  images: number;
+  galleries: number;
+  embeds: number;
+  bookmarks: number;
+}
+
+export interface PostOutcome {
+  id: string;
+  type: string;
+  // Whether the post was rendered from NPF blocks or legacy type fields
+  format: 'npf' | 'legacy';
+  reblog: boolean;
+  title: string;
+  titleStrategy: TitleStrategy;
+  slug: string;
+  status: string;
+  media: MediaCounts;
+  featureImage: string | null;
+  warnings: string[];
+  // Content that could not be carried over
+  skipped: string[];
+}
+
+// Post types that are all about their media and look broken without a feature image
+const MEDIA_TYPES = ['photo', 'video'];
+
+export function describeOutcome(
+  tumblrPost: TumblrPost,
+  post: GhostPost,
+  titleStrategy: TitleStrategy,
+  // False when feature images were turned off, so their absence isn't worth a warning
+  featureImages = true,
+): PostOutcome {
+  const html = post.html || '';
+  const npf = (!!tumblrPost.content && tumblrPost.content.length > 0) || hasNpfTrail(tumblrPost);
+  const type = postType(tumblrPost);
+  const media = countMedia(html);
+  const warnings: string[] = [];
+  const skipped: string[] = [];
+
+  if (npf) {
+    for (const blockType of [...unsupportedNpfBlocks(tumblrPost.content || []), ...unsupportedTrailBlocks(tumblrPost)]) {
+      skipped.push(`${blockType} block`);
+    }
+  } else if (!hasRenderer(tumblrPost.type)) {
+    warnings.push(`Unknown post type "${tumblrPost.type}" was rendered as text`);
+  }
+
+  const text = htmlToText(html);
+  if (!text && media.images + media.galleries + media.embeds + media.bookmarks === 0) {
+    warnings.push('Empty body');
+  }
+
+  if (titleStrategy === 'date') {
+    warnings.push('No usable text for a title; fell back to the post date');
+  }
+
+  if (hasReflowedGallery(tumblrPost)) {
+    warnings.push('Photoset rows with more than three images were split into several gallery rows');
+  }
+
+  if (featureImages && !post.feature_image && MEDIA_TYPES.includes(type)) {
+    warnings.push(`No feature image for a ${type} post`);
+  }
+
+  return {
+    id: post.id,
+    type,
+    format: npf ? 'npf' : 'legacy',
+    reblog: isReblog(tumblrPost),
+    title: post.title,
+    titleStrategy,
+    slug: post.slug,
+    status: post.status,
+    media,
+    featureImage: post.feature_image,
+    warnings,
+    skipped,
+  };
+}
+
+function countMedia(html: string): MediaCounts {
+  const count = (pattern: RegExp) => (html.match(pattern) || []).length;
+  return {
+    images: count(/<img\b/g),
+    galleries: count(/kg-gallery-card/g),
+    // Video and audio cards play media just like embeds
+    embeds: count(/kg-(embed|video|audio)-card/g),
+    bookmarks: count(/kg-bookmark-card/g),
+  };
+}
+
+function hasReflowedGallery(post: TumblrPost): boolean {
+  // Ghost gallery rows hold at most three images
+  if (post.content && post.content.length > 0) {
+    const rows = post.layout?.find(entry => entry.type === 'rows')?.display || [];
+    return rows.some(row => row.blocks.length > 3 && row.blocks.every(index => post.content?.[index]?.type === 'image'));
+  }
+  return (post.photoset_layout || '').split('').some(digit => Number(digit) > 3);
+}
@@ -0,0 +1,112 @@
+import { TumblrPost, TumblrTrailItem } from '../api/tumblr';
+import { escapeHtml, htmlImageSources, htmlToText } from '../utils/html';
+import { npfFirstImage, npfPlainText, renderNpfHtml, unsupportedNpfBlocks } from './npf';
+
+/**
+ * Renders reblogs: the posts being reblogged (the trail) as nested,
+ * attributed blockquotes the way Tumblr shows them, or just the
+ * reblogger's own commentary with a link to where it was reblogged from.
+ */
+
+// How reblogs are migrated; reblogs can also be skipped altogether with the original-only filter
+export type ReblogMode = 'trail' | 'commentary';
+
+interface TrailEntry {
+  blogName: string;
+  url: string | null;
+  html: string;
+}
+
+/**
+ * Reblog HTML for the given mode, or null if the post has no structured
+ * trail (e.g. posts from a blog export, whose body already quotes it).
+ */
+export function renderReblogHtml(post: TumblrPost, mode: ReblogMode): string | null {
+  const trail = trailItems(post);
+  if (trail.length === 0) return null;
+
+  // NPF content holds only what the reblogger added; legacy posts split it out as the comment
+  const commentary = post.content ? renderNpfHtml(post.content, post.layout) : post.reblog?.comment || '';
+
+  if (mode === 'commentary') {
+    const source = reblogSource(post, trail);
+    const credit = source ? `<p>Reblogged from ${attributionLink(source)}</p>` : '';
+    return commentary + credit;
+  }
+
+  // Innermost is the root post; each reblog after it quotes everything before
+  let quoted = '';
+  for (const entry of trail.map(toEntry)) {
+    quoted = `<p>${attributionLink(entry)}:</p><blockquote>${quoted}${entry.html}</blockquote>`;
+  }
+  return quoted + commentary;
+}
+
+/**
+ * HTML of the most recent trail entry with any text, for titling reblogs
+ * that add no text of their own.
+ */
+export function trailTitleSource(post: TumblrPost): string {
+  for (const item of trailItems(post).reverse()) {
+    const html = Array.isArray(item.content) ? escapeHtml(npfPlainText(item.content)) : item.content_raw || '';
+    if (htmlToText(html)) return html;
+  }
+  return '';
+}
+
+export function trailFirstImage(post: TumblrPost): string | null {
+  for (const item of trailItems(post)) {
+    const image = Array.isArray(item.content)
+      ? npfFirstImage(item.content)?.url
+      : htmlImageSources(item.content_raw || '')[0];
+    if (image) return image;
+  }
+  return null;
+}
+
+// Whether the trail is in NPF, so the post was rendered from blocks even without content of its own
+export function hasNpfTrail(post: TumblrPost): boolean {
+  return trailItems(post).some(item => Array.isArray(item.content));
+}
+
+export function unsupportedTrailBlocks(post: TumblrPost): string[] {
+  return trailItems(post).flatMap(item => (Array.isArray(item.content) ? unsupportedNpfBlocks(item.content) : []));
+}
+
+// The quoted posts, oldest first, without the legacy entry for the reblog itself
+function trailItems(post: TumblrPost): TumblrTrailItem[] {
+  return (post.trail || []).filter(item => !item.is_current_item);
+}
+
+function toEntry(item: TumblrTrailItem): TrailEntry {
+  const blogName = item.blog?.name || item.broken_blog_name || 'Unknown blog';
+  return {
+    blogName,
+    // Deleted blogs have nothing left to link to
+    url: item.blog ? postUrl(item.blog.name, item.blog.url, item.post?.id) : null,
+    html: Array.isArray(item.content) ? renderNpfHtml(item.content, item.layout) : item.content_raw || '',
+  };
+}
+
+function reblogSource(post: TumblrPost, trail: TumblrTrailItem[]): Omit<TrailEntry, 'html'> | null {
+  if (post.reblogged_from_name) {
+    return {
+      blogName: post.reblogged_from_name,
+      url: post.parent_post_url || postUrl(post.reblogged_from_name, post.reblogged_from_url, post.reblogged_from_id),
+    };
+  }
+
+  const parent = trail[trail.length - 1];
+  return parent ? toEntry(parent) : null;
+}
+
+function postUrl(blogName: string, blogUrl: string | undefined, postId: string | undefined): string {
+  const base = (blogUrl || `https://${blogName}.tumblr.com`).replace(/\/+$/, '');
+  // reblogged_from_url is already a post URL
+  return postId && !base.includes('/post/') ? `${base}/post/${postId}` : base;
+}
+
+function attributionLink(entry: Omit<TrailEntry, 'html'>): string {
+  const name = escapeHtml(entry.blogName);
+  return entry.url ? `<a href="${escapeHtml(entry.url)}">${name}</a>` : name;
+}
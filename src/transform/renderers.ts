@@ -0,0 +1,252 @@
+import { postType } from '../api/filters';
+import { NpfAudioBlock, NpfContentBlock, NpfLinkBlock, TumblrPhoto, TumblrPhotoSize, TumblrPost } from '../api/tumblr';
+import { escapeHtml, htmlToText } from '../utils/html';
+import { npfPlainText, renderNpfHtml } from './npf';
+import { trailTitleSource } from './reblogs';
+import {
+  audioCardHtml,
+  bookmarkCardHtml,
+  CardImage,
+  embedCardHtml,
+  galleryCardHtml,
+  imageCardHtml,
+  layoutGalleryRows,
+  videoCardHtml,
+} from './cards';
+import { hostnameOf, mediaCardHtml, tumblrMediaKind } from './embeds';
+
+/**
+ * Renders the body of a legacy (non-NPF) Tumblr post as Ghost HTML.
+ */
+export type PostRenderer = (post: TumblrPost) => string;
+
+const renderers: Record<string, PostRenderer> = {
+  text: renderText,
+  photo: renderPhoto,
+  quote: renderQuote,
+  link: renderLink,
+  chat: renderChat,
+  answer: renderAnswer,
+  audio: renderAudio,
+  video: renderVideo,
+};
+
+export function hasRenderer(type: string): boolean {
+  return type in renderers;
+}
+
+export function renderPostHtml(post: TumblrPost): string {
+  // NPF posts describe their content as blocks regardless of type
+  if (post.content && post.content.length > 0) {
+    return renderNpfHtml(post.content, post.layout);
+  }
+
+  const renderer = renderers[postType(post)] || renderText;
+  return renderer(post);
+}
+
+/**
+ * The text a post's title should be derived from when it has no title of
+ * its own, e.g. the quote for quote posts or the question for asks.
+ */
+export function titleSourceForPost(post: TumblrPost): string {
+  const source = ownTitleSource(post);
+  // Reblogs without text of their own are best described by what they quote
+  return htmlToText(source) ? source : trailTitleSource(post) || source;
+}
+
+function ownTitleSource(post: TumblrPost): string {
+  if (post.content && post.content.length > 0) {
+    return escapeHtml(npfPlainText(post.content));
+  }
+
+  switch (postType(post)) {
+    case 'photo':
+    case 'video':
+      return post.caption || post.body || '';
+    case 'quote':
+      return quoteText(post);
+    case 'link':
+      return post.description || post.excerpt || post.url || post.link_url || '';
+    case 'chat':
+      return chatLines(post)
+        .map(line => `${line.label} ${line.phrase}`)
+        .join(' ') || post.body || '';
+    case 'answer':
+      return post.question || '';
+    case 'audio': {
+      const track = [post.artist, post.track_name].filter(Boolean).join(' – ');
+      return track || post.caption || '';
+    }
+    default:
+      return post.body || post.caption || '';
+  }
+}
+
+/**
+ * A short descriptive title for post types whose text rarely reads as a
+ * sentence, used before falling back to the slug or date.
+ */
+export function typeTitleForPost(post: TumblrPost): string | null {
+  // NPF posts keep these details in their blocks and layout rather than in legacy fields
+  switch (postType(post)) {
+    case 'audio': {
+      const audio = firstBlock<NpfAudioBlock>(post.content, 'audio');
+      const track = [post.artist || audio?.artist, post.track_name || audio?.title].filter(Boolean).join(' – ');
+      return track || null;
+    }
+    case 'link': {
+      const url = post.url || post.link_url || firstBlock<NpfLinkBlock>(post.content, 'link')?.url;
+      return url ? hostnameOf(url) : null;
+    }
+    case 'quote': {
+      const source = htmlToText(post.quote_source || post.source || '');
+      return source ? `Quote from ${source}` : null;
+    }
+    case 'answer': {
+      const asker = post.asking_name || post.layout?.find(layout => layout.type === 'ask')?.attribution?.blog?.name;
+      return asker ? `Question from ${asker}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function firstBlock<T extends NpfContentBlock>(content: NpfContentBlock[] | undefined, type: T['type']): T | undefined {
+  return (content || []).find((block): block is T => block.type === type);
+}
+
+export function largestPhotoSize(photo: TumblrPhoto): TumblrPhotoSize {
+  return [photo.original_size, ...(photo.alt_sizes || [])]
+    .filter(Boolean)
+    .reduce((largest, size) => (size.width > largest.width ? size : largest));
+}
+
+function renderText(post: TumblrPost): string {
+  return post.body || post.caption || '';
+}
+
+function renderPhoto(post: TumblrPost): string {
+  const photos = post.photos || [];
+  const images: CardImage[] = photos.map(photo => {
+    const size = largestPhotoSize(photo);
+    return { src: size.url, width: size.width, height: size.height, alt: htmlToText(photo.caption || '') };
+  });
+
+  let html = '';
+  if (images.length === 1) {
+    html += imageCardHtml(images[0], photos[0].caption);
+  } else if (images.length > 1) {
+    html += galleryCardHtml(layoutGalleryRows(images, post.photoset_layout));
+  }
+
+  return html + (post.caption || post.body || '');
+}
+
+function quoteText(post: TumblrPost): string {
+  return post.quote_text || post.text || '';
+}
+
+function renderQuote(post: TumblrPost): string {
+  const text = quoteText(post);
+  const source = post.quote_source || post.source || '';
+
+  // Quote text is usually plain text but may contain inline markup
+  const body = /<\/?(p|br)\b/i.test(text) ? text : `<p>${text}</p>`;
+  let html = `<blockquote>${body}</blockquote>`;
+  if (source.trim()) {
+    html += `<p>— ${source.trim()}</p>`;
+  }
+  return html;
+}
+
+function renderLink(post: TumblrPost): string {
+  const url = post.url || post.link_url;
+  if (!url) {
+    return post.description || post.body || '';
+  }
+
+  const bookmark = bookmarkCardHtml({
+    url,
+    title: post.title || hostnameOf(url),
+    description: htmlToText(post.excerpt || ''),
+    publisher: post.publisher,
+    author: post.link_author,
+    thumbnail: post.link_image || (post.photos?.[0] ? largestPhotoSize(post.photos[0]).url : undefined),
+  });
+
+  return bookmark + (post.description || '');
+}
+
+function chatLines(post: TumblrPost) {
+  return post.dialogue || post.chat || [];
+}
+
+function renderChat(post: TumblrPost): string {
+  const lines = chatLines(post);
+  if (lines.length === 0) {
+    return post.body || '';
+  }
+
+  return lines
+    .map(line => {
+      const label = line.label ? `<strong>${escapeHtml(line.label)}</strong> ` : '';
+      return `<p>${label}${escapeHtml(line.phrase)}</p>`;
+    })
+    .join('');
+}
+
+function renderAnswer(post: TumblrPost): string {
+  const asker = post.asking_name || 'Anonymous';
+  const askerHtml = post.asking_url
+    ? `<a href="${escapeHtml(post.asking_url)}">${escapeHtml(asker)}</a>`
+    : escapeHtml(asker);
+
+  const question = post.question
+    ? `<blockquote><p><strong>${askerHtml}</strong> asked: ${post.question}</p></blockquote>`
+    : '';
+
+  return question + (post.answer || '');
+}
+
+function renderAudio(post: TumblrPost): string {
+  const track = [post.artist, post.track_name].filter(Boolean).join(' – ');
+  const caption = post.caption || '';
+
+  if (post.audio_url && (post.audio_type === 'tumblr' || tumblrMediaKind(post.audio_url) === 'audio')) {
+    return audioCardHtml({ src: post.audio_url, title: track, thumbnail: post.album_art }) + caption;
+  }
+
+  // Spotify and SoundCloud posts point at the track page
+  const url = post.audio_source_url || post.audio_url;
+  if (url) {
+    return mediaCardHtml(url, 'audio', { caption: escapeHtml(track), title: track || undefined, poster: post.album_art }) + caption;
+  }
+
+  const player = typeof post.player === 'string' ? post.player : '';
+  return (player ? embedCardHtml(player, escapeHtml(track)) : '') + caption;
+}
+
+function renderVideo(post: TumblrPost): string {
+  const caption = post.caption || '';
+
+  if (post.video_url && (post.video_type === 'tumblr' || tumblrMediaKind(post.video_url) === 'video')) {
+    const video = { src: post.video_url, poster: post.thumbnail_url, width: post.thumbnail_width, height: post.thumbnail_height };
+    return videoCardHtml(video) + caption;
+  }
+
+  const url = post.permalink_url || post.video_url;
+  if (url) {
+    return mediaCardHtml(url, 'video', { poster: post.thumbnail_url }) + caption;
+  }
+
+  let player = '';
+  if (Array.isArray(post.player)) {
+    // Use the widest embed Tumblr offers
+    const embeds = post.player
+      .filter(entry => typeof entry.embed_code === 'string' && entry.embed_code)
+      .sort((a, b) => b.width - a.width);
+    player = embeds.length > 0 ? (embeds[0].embed_code as string) : '';
+  }
+  return (player ? embedCardHtml(player) : '') + caption;
+}
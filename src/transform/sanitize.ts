@@ -0,0 +1,306 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import {
+  bookmarkCardHtml,
+  CardImage,
+  embedCardHtml,
+  galleryCardHtml,
+  imageCardHtml,
+  layoutGalleryRows,
+  VideoCard,
+  videoCardHtml,
+} from './cards';
+import { isInsideDir } from '../utils/paths';
+import { detectEmbed, hostnameOf, mediaCardHtml } from './embeds';
+
+/**
+ * Which markup survives cleaning. Tags that aren't allowed are unwrapped,
+ * keeping their content; attributes and classes that aren't are dropped.
+ */
+export interface SanitizeOptions {
+  allowedTags?: string[];
+  // Attributes kept per tag; those listed under '*' are kept on every tag
+  allowedAttributes?: Record<string, string[]>;
+  // Class name prefixes that are kept, such as Ghost's kg- card classes
+  allowedClassPrefixes?: string[];
+  // Folders of local media, such as an extracted blog export; media pointing at other paths on disk are dropped
+  localMediaRoots?: string[];
+}
+
+export const DEFAULT_ALLOWED_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'a', 'strong', 'b', 'em', 'i', 's', 'strike', 'del', 'u', 'code', 'pre', 'sup', 'sub', 'small', 'mark',
+  'cite', 'q', 'abbr', 'span', 'div', 'figure', 'figcaption', 'img', 'iframe', 'video', 'audio', 'source',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+];
+
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class'],
+  a: ['href', 'title'],
+  // srcset is kept for the media downloader, which picks the largest candidate
+  img: ['src', 'srcset', 'sizes', 'alt', 'title', 'width', 'height', 'loading'],
+  iframe: ['src', 'width', 'height', 'title', 'frameborder', 'allow', 'allowfullscreen', 'loading'],
+  video: ['src', 'poster', 'controls', 'width', 'height', 'loop', 'muted', 'playsinline', 'preload'],
+  audio: ['src', 'controls', 'loop', 'preload'],
+  source: ['src', 'type'],
+  blockquote: ['cite'],
+  ol: ['start', 'reversed'],
+  th: ['colspan', 'rowspan'],
+  td: ['colspan', 'rowspan'],
+};
+
+export const DEFAULT_ALLOWED_CLASS_PREFIXES = ['kg-', 'language-'];
+
+// Removed together with their content
+const DROPPED_TAGS = [
+  'script', 'style', 'noscript', 'template', 'link', 'meta', 'base',
+  'form', 'input', 'button', 'select', 'textarea', 'object', 'embed', 'applet',
+];
+
+const URL_ATTRIBUTES = ['href', 'src', 'poster', 'cite'];
+// Attributes the media downloader reads files from
+const MEDIA_ATTRIBUTES = ['src', 'poster'];
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Clean post HTML with a parser rather than patterns: strips Tumblr's
+ * markup (tmblr-full figures, npf_row photosets, data-orig-* and data-npf
+ * attributes, inline styles, scripts, t.umblr.com redirects), turns
+ * Tumblr images and photosets into Ghost image and gallery cards and
+ * embedded players into embed and video cards, and
+ * keeps only the allowed tags and attributes. Serialising the parsed
+ * document also closes unbalanced tags.
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  const allowedTags = new Set(options.allowedTags || DEFAULT_ALLOWED_TAGS);
+  const allowedAttributes = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
+  const classPrefixes = options.allowedClassPrefixes || DEFAULT_ALLOWED_CLASS_PREFIXES;
+  const localRoots = options.localMediaRoots || [];
+
+  const $ = cheerio.load(html || '', null, false);
+
+  $.root().find('*').addBack().contents().filter((_, node) => node.type === 'comment').remove();
+  $(DROPPED_TAGS.join(',')).remove();
+
+  unwrapTumblrRedirects($);
+  keepImageDimensions($);
+  convertEmbeds($);
+  convertPhotosets($);
+  convertTumblrFigures($);
+
+  for (const el of $.root().find('*').toArray()) {
+    cleanAttributes($, el, allowedAttributes, classPrefixes, localRoots);
+
+    // Spans only carry meaning through their classes
+    if (!allowedTags.has(el.name) || (el.name === 'span' && Object.keys(el.attribs).length === 0)) {
+      $(el).replaceWith($(el).contents());
+    }
+  }
+
+  // Tumblr pads posts with empty paragraphs and <p><br></p> spacers
+  $('p').filter((_, p) => !$(p).text().trim() && $(p).find('img, iframe, video, audio').length === 0).remove();
+
+  return $.html().trim();
+}
+
+// Tumblr routes outbound links through t.umblr.com; point them at the real URL
+function unwrapTumblrRedirects($: cheerio.CheerioAPI): void {
+  $('a[href]').each((_, a) => {
+    const href = $(a).attr('href') || '';
+    try {
+      const url = new URL(href);
+      const target = url.searchParams.get('z');
+      if (url.hostname === 't.umblr.com' && url.pathname === '/redirect' && target) {
+        $(a).attr('href', target);
+      }
+    } catch {
+      // Relative or malformed links are left alone
+    }
+  });
+}
+
+// Tumblr puts an image's real size in data-orig-*, which is about to be stripped
+function keepImageDimensions($: cheerio.CheerioAPI): void {
+  $('img').each((_, img) => {
+    const $img = $(img);
+    const $figure = $img.closest('figure');
+    for (const dimension of ['width', 'height']) {
+      const value = $img.attr(dimension) || $img.attr(`data-orig-${dimension}`) || $figure.attr(`data-orig-${dimension}`);
+      if (value && /^\d+$/.test(value)) {
+        $img.attr(dimension, value);
+      }
+    }
+  });
+}
+
+/**
+ * Players embedded in the body: Tumblr's <figure class="tmblr-embed"> and
+ * bare iframes or videos. Known providers get Ghost's embed markup,
+ * video files a video card and players from anywhere else a bookmark to
+ * the player's page.
+ */
+function convertEmbeds($: cheerio.CheerioAPI): void {
+  $('figure.tmblr-embed').each((_, figure) => {
+    const $figure = $(figure);
+    const url = $figure.attr('data-url') || $figure.find('iframe').attr('src') || '';
+    const video = videoCard($, $figure.find('video').get(0));
+
+    if (video) {
+      $figure.replaceWith(videoCardHtml(video));
+    } else if (url) {
+      $figure.replaceWith(mediaCardHtml(url, 'video'));
+    }
+  });
+
+  $('iframe[src], video').each((_, el) => {
+    const $el = $(el);
+    if ($el.closest('.kg-card').length > 0) return;
+
+    const video = el.name === 'video' ? videoCard($, el) : null;
+    const src = el.name === 'iframe' ? $el.attr('src') || '' : '';
+    const embed = src ? detectEmbed(src) : null;
+    const card = video ? videoCardHtml(video) : embed ? embedCardHtml(embed.html) : src ? playerBookmarkHtml(src) : null;
+    if (!card) return;
+
+    // Replace a wrapper that holds nothing but the player, so the card isn't left inside a paragraph
+    const $parent = $el.parent();
+    const alone = $parent.is('p, figure, div') && !$parent.text().trim() && $parent.children().length === 1;
+    (alone ? $parent : $el).replaceWith(card);
+  });
+}
+
+// Iframes from unknown providers can't be embedded safely, so link to the player instead
+function playerBookmarkHtml(src: string): string | null {
+  const url = src.trim().startsWith('//') ? `https:${src.trim()}` : src.trim();
+  return /^https?:\/\//i.test(url) ? bookmarkCardHtml({ url, title: hostnameOf(url) }) : null;
+}
+
+// Tumblr-hosted or, in blog exports, local video files
+function videoCard($: cheerio.CheerioAPI, video: Element | undefined): VideoCard | null {
+  if (!video) return null;
+
+  const $video = $(video);
+  const src = $video.attr('src') || $video.find('source').attr('src');
+  if (!src) return null;
+
+  const width = parseInt($video.attr('width') || '', 10);
+  const height = parseInt($video.attr('height') || '', 10);
+  return {
+    src,
+    poster: $video.attr('poster'),
+    width: width > 0 ? width : undefined,
+    height: height > 0 ? height : undefined,
+  };
+}
+
+/**
+ * Runs of <div class="npf_row"> are one photoset, laid out a row per div.
+ * Photosets become a gallery card, or an image card for a single image.
+ */
+function convertPhotosets($: cheerio.CheerioAPI): void {
+  const done = new Set<AnyNode>();
+
+  for (const first of $('div.npf_row').toArray()) {
+    if (done.has(first)) continue;
+
+    const rows = [first, ...$(first).nextUntil(':not(div.npf_row)').toArray()];
+    rows.forEach(row => done.add(row));
+
+    const images = rows.map(row => $(row).find('img').toArray().map(img => cardImage($, img)).filter(isCardImage));
+    const all = images.flat();
+    if (all.length === 0) continue;
+
+    const html = all.length === 1
+      ? imageCardHtml(all[0])
+      : galleryCardHtml(layoutGalleryRows(all, images.map(row => row.length).filter(Boolean).join('')));
+    $(first).before(html);
+    rows.forEach(row => $(row).remove());
+  }
+}
+
+// <figure class="tmblr-full"> and other figures around a single image become image cards
+function convertTumblrFigures($: cheerio.CheerioAPI): void {
+  $('figure').each((_, figure) => {
+    const $figure = $(figure);
+    if ($figure.is('.kg-card') || $figure.find('iframe, video, audio').length > 0) return;
+
+    const images = $figure.find('img').toArray();
+    if (images.length !== 1) return;
+
+    const image = cardImage($, images[0]);
+    if (!image) return;
+
+    const caption = ($figure.children('figcaption').html() || '').trim();
+    $figure.replaceWith(imageCardHtml(image, caption));
+  });
+}
+
+function cardImage($: cheerio.CheerioAPI, img: Element): CardImage | null {
+  const $img = $(img);
+  const src = $img.attr('src');
+  if (!src) return null;
+
+  const width = parseInt($img.attr('width') || '', 10);
+  const height = parseInt($img.attr('height') || '', 10);
+  return {
+    src,
+    alt: $img.attr('alt') || '',
+    width: width > 0 ? width : undefined,
+    height: height > 0 ? height : undefined,
+    href: $img.closest('a[href]').attr('href'),
+  };
+}
+
+function isCardImage(image: CardImage | null): image is CardImage {
+  return image !== null;
+}
+
+function cleanAttributes(
+  $: cheerio.CheerioAPI,
+  el: Element,
+  allowedAttributes: Record<string, string[]>,
+  classPrefixes: string[],
+  localRoots: string[],
+): void {
+  const allowed = new Set([...(allowedAttributes['*'] || []), ...(allowedAttributes[el.name] || [])]);
+  const $el = $(el);
+
+  for (const name of Object.keys(el.attribs)) {
+    const value = el.attribs[name];
+    const safe = name === 'srcset'
+      ? value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0], el.name, 'src', localRoots))
+      : !URL_ATTRIBUTES.includes(name) || isSafeUrl(value, el.name, name, localRoots);
+    if (!allowed.has(name) || !safe) {
+      $el.removeAttr(name);
+    }
+  }
+
+  const classes = ($el.attr('class') || '').split(/\s+/)
+    .filter(name => name && classPrefixes.some(prefix => name.startsWith(prefix)));
+  if (classes.length > 0) {
+    $el.attr('class', classes.join(' '));
+  } else {
+    $el.removeAttr('class');
+  }
+}
+
+function isSafeUrl(value: string, tagName: string, attribute: string, localRoots: string[]): boolean {
+  const url = value.trim();
+  // Media on disk would be copied into the import, so only a blog export's own files qualify
+  if (MEDIA_ATTRIBUTES.includes(attribute) && isLocalPath(url)) {
+    return localRoots.some(root => isInsideDir(root, url));
+  }
+
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase();
+  // Relative URLs, fragments and __GHOST_URL__ paths
+  if (!scheme) {
+    return true;
+  }
+  // Inline images are content; inline documents in links are not
+  return SAFE_SCHEMES.includes(scheme) || (tagName === 'img' && /^data:image\//i.test(url));
+}
+
+// Absolute paths, including Windows drive and network paths, but not protocol-relative URLs
+function isLocalPath(value: string): boolean {
+  return /^(?:\/(?!\/)|[a-z]:[\\/]|\\\\)/i.test(value);
+}
@@ -0,0 +1,151 @@
+import * as cheerio from 'cheerio';
+import { TumblrPost } from '../api/tumblr';
+import { htmlToText } from '../utils/html';
+import { npfLeadingHeading } from './npf';
+import { titleSourceForPost, typeTitleForPost } from './renderers';
+
+/**
+ * Ways of choosing a post's title. The configured strategies are tried in
+ * order and the first that finds a title wins; the post date closes every
+ * cascade, so each post ends up with a title.
+ */
+export type TitleStrategy =
+  | 'title'
+  | 'summary'
+  | 'heading'
+  | 'sentence'
+  | 'words'
+  | 'characters'
+  | 'type'
+  | 'slug'
+  | 'date'
+  | 'untitled';
+
+// Where a post's custom excerpt comes from
+export type ExcerptStrategy = 'summary' | 'text';
+
+export interface TitleOptions {
+  // Longest title the 'characters' strategy makes
+  characters: number;
+}
+
+export const DEFAULT_TITLE_STRATEGIES: TitleStrategy[] = ['title', 'heading', 'sentence', 'words', 'type', 'slug', 'date'];
+
+export const EXCERPT_STRATEGIES: ExcerptStrategy[] = ['summary', 'text'];
+
+// Ghost's own placeholder for posts without a title
+export const UNTITLED = '(Untitled)';
+
+// Ghost's limits for post titles and custom excerpts
+const MAX_TITLE_LENGTH = 255;
+const MAX_EXCERPT_LENGTH = 300;
+
+interface TitleContext {
+  post: TumblrPost;
+  options: TitleOptions;
+  // Plain text of the post, worked out on first use
+  text(): string;
+}
+
+type TitleFinder = (context: TitleContext) => string | null;
+
+const finders: Record<TitleStrategy, TitleFinder> = {
+  title: ({ post }) => post.title?.trim() || null,
+  // Tumblr's summary is the start of the post's text; its first line reads best
+  summary: ({ post }) => (post.summary || '').split('\n').map(line => line.trim()).find(Boolean) || null,
+  heading: ({ post }) => (post.content?.length ? npfLeadingHeading(post.content) : leadingHeading(post.body || '')),
+  sentence: ({ text }) => firstSentence(text()) || null,
+  words: ({ text }) => firstWords(text(), 10) || null,
+  characters: ({ text, options }) => truncate(collapseWhitespace(text()), options.characters) || null,
+  // Audio, link, quote and answer posts have a natural descriptive title
+  type: ({ post }) => typeTitleForPost(post),
+  slug: ({ post }) => slugTitle(post.slug || ''),
+  date: ({ post }) => `Post from ${new Date(post.timestamp * 1000).toISOString().split('T')[0]}`,
+  untitled: () => UNTITLED,
+};
+
+export const TITLE_STRATEGIES = Object.keys(finders) as TitleStrategy[];
+
+export function chooseTitle(
+  post: TumblrPost,
+  strategies: TitleStrategy[] = DEFAULT_TITLE_STRATEGIES,
+  options: TitleOptions = { characters: 60 },
+): { title: string; strategy: TitleStrategy } {
+  let text: string | undefined;
+  const context: TitleContext = {
+    post,
+    options,
+    text: () => {
+      if (text === undefined) {
+        // The body, caption, quote or question depending on the post type
+        text = htmlToText(titleSourceForPost(post));
+      }
+      return text;
+    },
+  };
+
+  for (const strategy of [...strategies, 'date' as const]) {
+    const title = finders[strategy](context);
+    if (title) {
+      return { title: truncate(title, MAX_TITLE_LENGTH), strategy };
+    }
+  }
+  throw new Error(`No title for post ${post.id}`);
+}
+
+/**
+ * A custom excerpt from Tumblr's summary or the start of the post's text,
+ * by the first strategy that finds one, cut to fit Ghost's limit.
+ */
+export function chooseExcerpt(post: TumblrPost, html: string, strategies: ExcerptStrategy[]): string | null {
+  for (const strategy of strategies) {
+    const text = collapseWhitespace(strategy === 'summary' ? post.summary || '' : htmlToText(html));
+    if (text) {
+      return truncate(text, MAX_EXCERPT_LENGTH);
+    }
+  }
+  return null;
+}
+
+function leadingHeading(html: string): string | null {
+  const $ = cheerio.load(html, null, false);
+  const first = $.root().children().first();
+  return first.is('h1, h2') ? collapseWhitespace(first.text()) || null : null;
+}
+
+function firstSentence(text: string): string {
+  // Look for sentence endings: . ! ? followed by space or end of string
+  const match = collapseWhitespace(text).match(/^[^.!?]*[.!?](?:\s|$)/);
+  const sentence = match ? match[0].trim() : '';
+
+  // Anything shorter is unlikely to be a real sentence
+  return sentence.length > 10 && sentence.split(' ').length > 3 ? sentence : '';
+}
+
+function firstWords(text: string, maxWords: number): string {
+  // Leave out very short words, which are unlikely to be meaningful
+  const words = collapseWhitespace(text).split(' ').slice(0, maxWords).filter(word => word.length > 1);
+  const title = words.length >= 3 ? words.join(' ') : '';
+  return title.length > 5 ? title : '';
+}
+
+function slugTitle(slug: string): string | null {
+  const words = slug.replace(/-/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase()).trim().split(/\s+/);
+  const title = words.slice(0, 12).join(' ');
+  return title.length > 5 ? title : null;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Cut at a word boundary where there is one, marking the cut with an ellipsis
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > maxLength / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
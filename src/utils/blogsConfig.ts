@@ -0,0 +1,137 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { TumblrPost } from '../api/tumblr';
+import { AuthorConfig } from '../transform/formatPost';
+import { validateAuthor } from './config';
+import { sanitizeBlogName } from './paths';
+import { slugify } from './slug';
+
+/**
+ * One blog of a migration that combines several blogs into one Ghost site.
+ */
+export interface BlogConfig {
+  name: string;
+  // Author of the blog's posts, unless their post_author is mapped to someone else
+  author: AuthorConfig;
+  // Tumblr member names, as in a group blog post's post_author, mapped to Ghost users
+  authors: Record<string, AuthorConfig>;
+  // Added to every post of the blog
+  tags: string[];
+  // Read the blog from an export or saved responses instead of the API
+  archive?: string;
+  fromJson?: string[];
+}
+
+interface AuthorEntry {
+  name?: string;
+  email?: string;
+  slug?: string;
+}
+
+interface BlogEntry {
+  name?: string;
+  author?: AuthorEntry;
+  authors?: Record<string, AuthorEntry>;
+  tags?: string[];
+  archive?: string;
+  fromJson?: string | string[];
+}
+
+// The file as written; author and authors at the top apply to every blog
+interface BlogsFile {
+  author?: AuthorEntry;
+  authors?: Record<string, AuthorEntry>;
+  blogs?: BlogEntry[];
+}
+
+/**
+ * Read the blogs to migrate from a JSON file. Blogs without an author of
+ * their own fall back to the file's author and then to defaultAuthor;
+ * member mappings of a blog add to the file's. Each blog is tagged with
+ * its name unless it lists its own tags, and paths are relative to the file.
+ * Different authors can't share a slug.
+ */
+export async function loadBlogsConfig(filePath: string, defaultAuthor: AuthorConfig): Promise<BlogConfig[]> {
+  let file: BlogsFile;
+  try {
+    file = await fs.readJson(filePath);
+  } catch (error) {
+    throw new Error(`Could not read the blogs file ${filePath}: ${error}`);
+  }
+
+  if (!Array.isArray(file?.blogs) || file.blogs.length === 0) {
+    throw new Error(`${filePath} must list the blogs to migrate under "blogs"`);
+  }
+
+  const baseDir = path.dirname(path.resolve(filePath));
+  const fileAuthor = file.author ? parseAuthor(file.author, `${filePath}: author`) : defaultAuthor;
+  const fileAuthors = parseAuthors(file.authors, `${filePath}: authors`);
+  const names = new Set<string>();
+
+  const blogs = file.blogs.map((entry, index) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name) {
+      throw new Error(`${filePath}: blog ${index + 1} has no name`);
+    }
+    if (names.has(sanitizeBlogName(name))) {
+      throw new Error(`${filePath}: ${name} is listed more than once`);
+    }
+    names.add(sanitizeBlogName(name));
+
+    const fromJson = entry.fromJson === undefined ? undefined : [entry.fromJson].flat();
+    return {
+      name,
+      author: entry.author ? parseAuthor(entry.author, `${filePath}: author of ${name}`) : fileAuthor,
+      authors: { ...fileAuthors, ...parseAuthors(entry.authors, `${filePath}: authors of ${name}`) },
+      tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [sanitizeBlogName(name)],
+      archive: entry.archive ? path.resolve(baseDir, entry.archive) : undefined,
+      fromJson: fromJson?.map(entryPath => path.resolve(baseDir, entryPath)),
+    };
+  });
+
+  checkAuthorSlugs(blogs, filePath);
+  return blogs;
+}
+
+/**
+ * The Ghost user a post is credited to: the one its Tumblr member is
+ * mapped to, or the blog's author.
+ */
+export function authorForPost(blog: BlogConfig, post: Pick<TumblrPost, 'post_author'>): AuthorConfig {
+  return blog.authors[(post.post_author || '').toLowerCase()] || blog.author;
+}
+
+// Ghost users are keyed on their slug, so two people sharing one would be merged
+function checkAuthorSlugs(blogs: BlogConfig[], filePath: string): void {
+  const emails = new Map<string, string>();
+  for (const author of blogs.flatMap(blog => [blog.author, ...Object.values(blog.authors)])) {
+    const email = emails.get(author.slug);
+    if (email && email.toLowerCase() !== author.email.toLowerCase()) {
+      throw new Error(`${filePath}: ${email} and ${author.email} both have the slug ${author.slug}; give one of them another slug`);
+    }
+    emails.set(author.slug, author.email);
+  }
+}
+
+function parseAuthors(entries: Record<string, AuthorEntry> | undefined, where: string): Record<string, AuthorConfig> {
+  const authors: Record<string, AuthorConfig> = {};
+  for (const [member, entry] of Object.entries(entries || {})) {
+    // Member names are matched the way Tumblr treats blog names, ignoring case
+    authors[member.toLowerCase()] = parseAuthor(entry, `${where}: ${member}`);
+  }
+  return authors;
+}
+
+function parseAuthor(entry: AuthorEntry, where: string): AuthorConfig {
+  if (!entry?.name || !entry.email) {
+    throw new Error(`${where} needs a name and an email`);
+  }
+
+  const author = { name: entry.name, email: entry.email, slug: entry.slug || slugify(entry.name) };
+  try {
+    validateAuthor(author);
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : error}`);
+  }
+  return author;
+}
@@ -0,0 +1,51 @@
+/**
+ * Run fn over every item with at most limit calls in flight. Results keep
+ * the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Request up to `ahead` items of an async iterable before they are needed,
+ * so that fetching the next page overlaps with processing the current one.
+ */
+export async function* readAhead<T>(source: AsyncIterable<T>, ahead = 1): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  const queue: Array<Promise<IteratorResult<T>>> = [];
+
+  try {
+    for (;;) {
+      while (queue.length <= ahead) {
+        const next = iterator.next();
+        // Failures surface when the item is reached, not while it waits in the queue
+        next.catch(() => undefined);
+        queue.push(next);
+      }
+
+      const result = await (queue.shift() as Promise<IteratorResult<T>>);
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
@@ -1,12 +1,17 @@
 import dotenv from 'dotenv';
 import fs from 'fs-extra';
 import path from 'path';
+import { OAuthCredentials } from '../api/oauth';
 
 export interface Config {
   apiKey: string;
   blogName?: string;
+  consumerSecret?: string;
   accessToken?: string;
   accessTokenSecret?: string;
+  // Ghost Admin API access, for publishing straight to a site
+  ghostAdminUrl?: string;
+  ghostAdminKey?: string;
   author: {
     name: string;
     email: string;
@@ -14,7 +19,14 @@ export interface Config {
   };
 }
 
-export async function loadConfig(): Promise<Config> {
+export interface LoadConfigOptions {
+  // Offline sources such as a blog archive don't need API credentials
+  requireApiKey?: boolean;
+}
+
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<Config> {
+  const { requireApiKey = true } = options;
+
   // Load environment variables from .env file
   const envPath = path.resolve(process.cwd(), '.env');
   
@@ -30,15 +42,18 @@ export async function loadConfig(): Promise<Config> {
 
   const apiKey = process.env.TUMBLR_API_KEY;
   const blogName = process.env.TUMBLR_BLOG_NAME;
+  const consumerSecret = process.env.TUMBLR_CONSUMER_SECRET;
   const accessToken = process.env.TUMBLR_ACCESS_TOKEN;
   const accessTokenSecret = process.env.TUMBLR_ACCESS_TOKEN_SECRET;
+  const ghostAdminUrl = process.env.GHOST_ADMIN_API_URL;
+  const ghostAdminKey = process.env.GHOST_ADMIN_API_KEY;
 
   // Author configuration with defaults
   const authorName = process.env.GHOST_AUTHOR_NAME || 'Imported User';
   const authorEmail = process.env.GHOST_AUTHOR_EMAIL || 'imported@example.com';
   const authorSlug = process.env.GHOST_AUTHOR_SLUG || 'imported-user';
 
-  if (!apiKey) {
+  if (!apiKey && requireApiKey) {
     throw new Error(
       'TUMBLR_API_KEY environment variable is required. ' +
       'Please add it to your .env file or set it in your environment.'
@@ -46,10 +61,13 @@ export async function loadConfig(): Promise<Config> {
   }
 
   return {
-    apiKey,
+    apiKey: apiKey || '',
     blogName,
+    consumerSecret,
     accessToken,
     accessTokenSecret,
+    ghostAdminUrl,
+    ghostAdminKey,
     author: {
       name: authorName,
       email: authorEmail,
@@ -70,15 +88,19 @@ export function validateConfig(config: Config): void {
     );
   }
 
+  validateAuthor(config.author);
+}
+
+export function validateAuthor(author: Config['author']): void {
   // Validate author email format
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(config.author.email)) {
-    throw new Error(`Invalid author email format: ${config.author.email}`);
+  if (!emailRegex.test(author.email)) {
+    throw new Error(`Invalid author email format: ${author.email}`);
   }
 
   // Validate author slug format
-  if (!/^[a-z0-9-]+$/.test(config.author.slug)) {
-    throw new Error(`Invalid author slug format: ${config.author.slug}. Use only lowercase letters, numbers, and hyphens.`);
+  if (!/^[a-z0-9-]+$/.test(author.slug)) {
+    throw new Error(`Invalid author slug format: ${author.slug}. Use only lowercase letters, numbers, and hyphens.`);
   }
 }
 
@@ -102,7 +124,8 @@ export async function createEnvFile(): Promise<void> {
 TUMBLR_API_KEY=your_tumblr_api_key_here
 TUMBLR_BLOG_NAME=your_blog_name.tumblr.com
 
-# Optional: OAuth tokens for private blogs
+# Optional: OAuth credentials for private posts, drafts and the queue
+# TUMBLR_CONSUMER_SECRET=your_consumer_secret_here
 # TUMBLR_ACCESS_TOKEN=your_access_token_here
 # TUMBLR_ACCESS_TOKEN_SECRET=your_access_token_secret_here
 
@@ -111,6 +134,11 @@ TUMBLR_BLOG_NAME=your_blog_name.tumblr.com
 GHOST_AUTHOR_NAME=Your Name
 GHOST_AUTHOR_EMAIL=your.email@example.com
 GHOST_AUTHOR_SLUG=your-name
+
+# Optional: publish straight to a Ghost site with migrate --target ghost-api
+# Create a custom integration under Settings → Integrations to get the key
+# GHOST_ADMIN_API_URL=https://your-site.ghost.io
+# GHOST_ADMIN_API_KEY=your_admin_api_key_here
 `;
 
     await fs.writeFile(envPath, envContent, 'utf8');
@@ -119,6 +147,23 @@ GHOST_AUTHOR_SLUG=your-name
   }
 }
 
+/**
+ * OAuth credentials for signed requests, or undefined unless all of them are set.
+ * The API key doubles as the OAuth consumer key.
+ */
+export function getOAuthCredentials(config: Config): OAuthCredentials | undefined {
+  if (!config.consumerSecret || !config.accessToken || !config.accessTokenSecret) {
+    return undefined;
+  }
+
+  return {
+    consumerKey: config.apiKey,
+    consumerSecret: config.consumerSecret,
+    token: config.accessToken,
+    tokenSecret: config.accessTokenSecret,
+  };
+}
+
 export function getApiKeyFromArgs(args: string[]): string | undefined {
   // Look for API key in command line arguments
   const apiKeyIndex = args.findIndex(arg => arg === '--api-key' || arg === '-k');
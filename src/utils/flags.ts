@@ -0,0 +1,148 @@
+import { Flags } from '@oclif/core';
+import { parseFilterDate, PostFilter } from '../api/filters';
+import { FEATURE_IMAGE_POLICIES, FeatureImagePolicy } from '../transform/featureImage';
+import { TransformOptions } from '../transform/formatPost';
+import {
+  DEFAULT_TITLE_STRATEGIES,
+  EXCERPT_STRATEGIES,
+  ExcerptStrategy,
+  TITLE_STRATEGIES,
+  TitleStrategy,
+} from '../transform/titles';
+
+// Legacy post types, which the API also accepts as a filter
+export const POST_TYPES = ['text', 'photo', 'quote', 'link', 'chat', 'audio', 'video', 'answer'];
+
+/**
+ * Flags for narrowing down which posts are fetched, shared by the commands
+ * that read posts.
+ */
+export const filterFlags = {
+  since: Flags.string({
+    description: 'Only posts published on or after this date (YYYY-MM-DD or ISO 8601)',
+  }),
+  until: Flags.string({
+    description: 'Only posts published on or before this date (YYYY-MM-DD or ISO 8601)',
+  }),
+  type: Flags.string({
+    description: 'Only posts of this type (repeat for several)',
+    options: POST_TYPES,
+    multiple: true,
+  }),
+  tag: Flags.string({
+    description: 'Only posts with this tag (repeat for any of several)',
+    multiple: true,
+  }),
+  'exclude-tag': Flags.string({
+    description: 'Skip posts with this tag (repeatable)',
+    multiple: true,
+  }),
+  'original-only': Flags.boolean({
+    description: 'Skip reblogs',
+    default: false,
+  }),
+  'min-notes': Flags.integer({
+    description: 'Only posts with at least this many notes',
+    min: 0,
+  }),
+};
+
+export interface FilterFlagValues {
+  since?: string;
+  until?: string;
+  type?: string[];
+  tag?: string[];
+  'exclude-tag'?: string[];
+  'original-only'?: boolean;
+  'min-notes'?: number;
+}
+
+export function filterOptions(flags: FilterFlagValues): PostFilter {
+  const filter: PostFilter = {
+    since: flags.since ? parseFilterDate(flags.since) : undefined,
+    until: flags.until ? parseFilterDate(flags.until, true) : undefined,
+    types: flags.type,
+    tags: flags.tag?.map(tag => tag.replace(/^#/, '')),
+    excludeTags: flags['exclude-tag']?.map(tag => tag.replace(/^#/, '')),
+    originalOnly: flags['original-only'],
+    minNotes: flags['min-notes'],
+  };
+
+  if (filter.since !== undefined && filter.until !== undefined && filter.since >= filter.until) {
+    throw new Error('--since must be before --until');
+  }
+  return filter;
+}
+
+/**
+ * A one-line description of the active filters for progress output, or
+ * undefined when nothing is filtered.
+ */
+export function describeFilter(filter: PostFilter): string | undefined {
+  const parts: string[] = [];
+  const day = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
+  if (filter.since !== undefined) parts.push(`since ${day(filter.since)}`);
+  // until is exclusive, so show the last day it includes
+  if (filter.until !== undefined) parts.push(`until ${day(filter.until - 1)}`);
+  if (filter.types?.length) parts.push(`type ${filter.types.join('/')}`);
+  if (filter.tags?.length) parts.push(`tagged ${filter.tags.map(tag => `#${tag}`).join(' or ')}`);
+  if (filter.excludeTags?.length) parts.push(`not tagged ${filter.excludeTags.map(tag => `#${tag}`).join(' or ')}`);
+  if (filter.originalOnly) parts.push('no reblogs');
+  if (filter.minNotes !== undefined) parts.push(`at least ${filter.minNotes} notes`);
+
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Flags for how posts are titled, excerpted and illustrated, shared by the
+ * commands that transform posts.
+ */
+export const presentationFlags = {
+  'title-from': Flags.string({
+    description: 'How posts are titled, tried in order (repeat for a cascade); "untitled" hides the title',
+    options: TITLE_STRATEGIES,
+    multiple: true,
+    default: DEFAULT_TITLE_STRATEGIES,
+  }),
+  'title-length': Flags.integer({
+    description: 'Longest title made by --title-from characters',
+    default: 60,
+    min: 10,
+  }),
+  'excerpt-from': Flags.string({
+    description: 'Set custom excerpts from Tumblr\'s summary or the post text, tried in order (cut to 300 characters)',
+    options: EXCERPT_STRATEGIES,
+    multiple: true,
+  }),
+  'hide-title': Flags.string({
+    description: 'Hide the title and feature image on posts of this type (repeat for several)',
+    options: POST_TYPES,
+    multiple: true,
+  }),
+  'feature-image': Flags.string({
+    description: 'Feature image: the first image, the first image moved out of the body, the largest, photo posts only, or none',
+    options: FEATURE_IMAGE_POLICIES,
+    default: 'first',
+  }),
+};
+
+export interface PresentationFlagValues {
+  'title-from'?: string[];
+  'title-length'?: number;
+  'excerpt-from'?: string[];
+  'hide-title'?: string[];
+  'feature-image'?: string;
+}
+
+export function presentationOptions(
+  flags: PresentationFlagValues,
+): Pick<TransformOptions, 'titles' | 'titleLength' | 'excerpts' | 'hiddenTitleTypes' | 'featureImages'> {
+  return {
+    titles: flags['title-from'] as TitleStrategy[] | undefined,
+    titleLength: flags['title-length'],
+    excerpts: flags['excerpt-from'] as ExcerptStrategy[] | undefined,
+    hiddenTitleTypes: flags['hide-title'],
+    featureImages: flags['feature-image'] as FeatureImagePolicy | undefined,
+  };
+}
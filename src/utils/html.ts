@@ -0,0 +1,34 @@
+import * as cheerio from 'cheerio';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const TEXT_BLOCKS = 'p, div, li, blockquote, figure, figcaption, h1, h2, h3, h4, h5, h6, pre, tr, td, th';
+
+/**
+ * The text of an HTML fragment with tags removed and entities decoded.
+ * Paragraphs, line breaks and other blocks are kept apart by whitespace.
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html || '', null, false);
+  $('br').replaceWith('\n');
+  $(TEXT_BLOCKS).append('\n');
+  return $.root().text().trim();
+}
+
+/**
+ * The src of every image in an HTML fragment, in document order, leaving
+ * out inline data: images.
+ */
+export function htmlImageSources(html: string): string[] {
+  const $ = cheerio.load(html || '', null, false);
+  return $('img').toArray()
+    .map(img => $(img).attr('src') || '')
+    .filter(src => src && !src.startsWith('data:'));
+}
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+
+/**
+ * Generate a stable 24-character hex id (the shape of a Ghost ObjectId) from a seed.
+ * The same seed always yields the same id, so re-running an export keeps
+ * references between posts, tags and users intact.
+ */
+export function stableId(seed: string): string {
+  return crypto.createHash('md5').update(seed).digest('hex').slice(0, 24);
+}
+
+// Namespace for UUIDs derived from Tumblr ids
+const UUID_NAMESPACE = 'b7d1f0e4-5c2a-4f8e-9a63-2d7c1e9b4f10';
+
+/**
+ * Generate a stable UUID from a seed, so a post exported twice keeps the
+ * same UUID and Ghost can tell it's the same post.
+ */
+export function stableUuid(seed: string): string {
+  return uuidv5(seed, UUID_NAMESPACE);
+}
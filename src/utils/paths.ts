@@ -0,0 +1,23 @@
+import path from 'path';
+
+/**
+ * A blog name reduced to something safe to use in file and directory names.
+ */
+export function sanitizeBlogName(blogName: string): string {
+  // Remove .tumblr.com suffix and sanitize for filename
+  return blogName
+    .replace(/\.tumblr\.com$/i, '') // Remove .tumblr.com
+    .replace(/[^a-zA-Z0-9-_]/g, '-') // Replace invalid chars with hyphens
+    .replace(/-+/g, '-') // Replace multiple hyphens with single
+    .replace(/^-|-$/g, '') // Remove leading/trailing hyphens
+    .toLowerCase();
+}
+
+/**
+ * Whether a path lies inside a directory once both are resolved, so
+ * paths taken from post content can't reach outside it with `..`.
+ */
+export function isInsideDir(dir: string, filePath: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
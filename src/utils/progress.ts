@@ -0,0 +1,81 @@
+/**
+ * Counts posts as a long-running stage works through them, and describes
+ * the progress with a rate and, when the total is known, an ETA.
+ */
+export class ProgressTracker {
+  readonly total?: number;
+
+  private done = 0;
+  private startedAt: number;
+  private reportedAt: number;
+
+  constructor(total?: number, now: number = Date.now()) {
+    this.total = total;
+    this.startedAt = now;
+    this.reportedAt = now;
+  }
+
+  get count(): number {
+    return this.done;
+  }
+
+  advance(count: number): void {
+    this.done += count;
+  }
+
+  // Posts per second so far
+  rate(now: number = Date.now()): number {
+    const seconds = (now - this.startedAt) / 1000;
+    return seconds > 0 ? this.done / seconds : 0;
+  }
+
+  /**
+   * Milliseconds until the total is reached at the current rate, if it can
+   * be worked out. Filters can leave fewer posts than the blog's total, so
+   * this is an upper bound.
+   */
+  remaining(now: number = Date.now()): number | undefined {
+    const rate = this.rate(now);
+    if (this.total === undefined || rate === 0 || this.done >= this.total) {
+      return undefined;
+    }
+    return ((this.total - this.done) / rate) * 1000;
+  }
+
+  describe(now: number = Date.now()): string {
+    const count = this.total !== undefined && this.done <= this.total
+      ? `${this.done.toLocaleString('en-US')}/${this.total.toLocaleString('en-US')} posts`
+      : `${this.done.toLocaleString('en-US')} posts`;
+    const parts = [count, `${this.rate(now).toFixed(1)} posts/s`];
+
+    const remaining = this.remaining(now);
+    if (remaining !== undefined) {
+      parts.push(`ETA ${formatDuration(remaining)}`);
+    }
+    return parts.join(' · ');
+  }
+
+  /**
+   * True at most once per interval, so progress lines don't flood the output.
+   */
+  shouldReport(intervalMs = 5000, now: number = Date.now()): boolean {
+    if (now - this.reportedAt < intervalMs) {
+      return false;
+    }
+    this.reportedAt = now;
+    return true;
+  }
+}
+
+/**
+ * A duration as "1h 5m", "12m 30s" or "45s".
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
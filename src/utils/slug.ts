@@ -0,0 +1,118 @@
+import fs from 'fs-extra';
+
+// Ghost stores slugs in a varchar(191) column
+export const MAX_SLUG_LENGTH = 191;
+
+const VALID_SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Letters that Unicode normalization doesn't reduce to ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', đ: 'd', ð: 'd', ł: 'l', þ: 'th', ı: 'i', ħ: 'h', ŧ: 't',
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  і: 'i', ї: 'yi', є: 'ye', ґ: 'g',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l',
+  μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f',
+  χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+/**
+ * Turn text into a Ghost slug: ASCII letters, digits and single hyphens,
+ * at most maxLength characters. Accented and Cyrillic/Greek letters are
+ * transliterated; anything else is dropped, so the result may be empty.
+ */
+export function slugify(text: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  const transliterate = (value: string) => Array.from(value).map(char => TRANSLITERATIONS[char] ?? char).join('');
+
+  // Transliterate before and after decomposing, so both й and accented Greek vowels map
+  const ascii = transliterate(
+    transliterate(text.toLowerCase().normalize('NFC'))
+      .normalize('NFKD')
+      // Combining marks left over from decomposing accented letters
+      .replace(/[\u0300-\u036f]/g, ''),
+  );
+
+  const slug = ascii
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return truncateSlug(slug, maxLength);
+}
+
+export function isValidSlug(slug: string): boolean {
+  return slug.length <= MAX_SLUG_LENGTH && VALID_SLUG.test(slug);
+}
+
+/**
+ * Shorten a slug to maxLength, cutting at a hyphen where possible.
+ */
+export function truncateSlug(slug: string, maxLength: number = MAX_SLUG_LENGTH): string {
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+
+  const cut = slug.slice(0, maxLength);
+  const lastHyphen = cut.lastIndexOf('-');
+  // Only back up to a word boundary if that doesn't throw most of it away
+  const shortened = lastHyphen > maxLength / 2 ? cut.slice(0, lastHyphen) : cut;
+  return shortened.replace(/-+$/, '');
+}
+
+/**
+ * Hands out unique slugs. The first claim of a slug gets it unchanged and
+ * later ones get -2, -3, ... so the same claims in the same order always
+ * produce the same slugs. Slugs already taken elsewhere (e.g. on the
+ * target Ghost site) can be reserved up front.
+ */
+export class SlugRegistry {
+  private taken = new Set<string>();
+
+  constructor(reserved: Iterable<string> = []) {
+    for (const slug of reserved) {
+      this.taken.add(slug.trim().toLowerCase());
+    }
+  }
+
+  has(slug: string): boolean {
+    return this.taken.has(slug);
+  }
+
+  claim(slug: string): string {
+    if (!this.taken.has(slug)) {
+      this.taken.add(slug);
+      return slug;
+    }
+
+    for (let n = 2; ; n++) {
+      const suffix = `-${n}`;
+      const candidate = `${truncateSlug(slug, MAX_SLUG_LENGTH - suffix.length)}${suffix}`;
+      if (!this.taken.has(candidate)) {
+        this.taken.add(candidate);
+        return candidate;
+      }
+    }
+  }
+}
+
+/**
+ * Read slugs that already exist on the target site, either from a Ghost
+ * JSON export (posts and pages) or a text file with one slug per line.
+ */
+export async function loadExistingSlugs(filePath: string): Promise<string[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+
+  if (filePath.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(content);
+    const entries = Array.isArray(data?.db) ? data.db : [data];
+    return entries.flatMap((entry: { data?: { posts?: Array<{ slug?: string }> } }) =>
+      (entry.data?.posts || []).map(post => post.slug).filter((slug): slug is string => !!slug),
+    );
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
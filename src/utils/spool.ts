@@ -0,0 +1,72 @@
+import { once } from 'events';
+import fs from 'fs-extra';
+import path from 'path';
+import readline from 'readline';
+
+/**
+ * A file of JSON values, one per line, that keeps the items of a long
+ * pipeline on disk between passes instead of in memory.
+ */
+export class JsonLinesSpool<T> {
+  readonly filePath: string;
+
+  private stream?: fs.WriteStream;
+  private streamError?: Error;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async append(item: T): Promise<void> {
+    if (!this.stream) {
+      await fs.ensureDir(path.dirname(this.filePath));
+      this.stream = fs.createWriteStream(this.filePath, { encoding: 'utf8' });
+      this.stream.on('error', error => {
+        this.streamError = error;
+      });
+    }
+    if (this.streamError) {
+      throw this.streamError;
+    }
+
+    if (!this.stream.write(`${JSON.stringify(item)}\n`)) {
+      await once(this.stream, 'drain');
+    }
+  }
+
+  /**
+   * Read the items back in the order they were appended. Appending ends
+   * once reading starts.
+   */
+  async *read(): AsyncGenerator<T> {
+    await this.close();
+    if (!(await fs.pathExists(this.filePath))) {
+      return;
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(this.filePath, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  async remove(): Promise<void> {
+    await this.close();
+    await fs.remove(this.filePath);
+  }
+
+  private async close(): Promise<void> {
+    if (!this.stream) return;
+
+    const stream = this.stream;
+    this.stream = undefined;
+    if (this.streamError) {
+      stream.destroy();
+      throw this.streamError;
+    }
+    stream.end();
+    await once(stream, 'finish');
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { FetchCheckpoint } from '../../src/api/checkpoint';
+import { hasFilter, pickFilter } from '../../src/api/filters';
+import { FetchOptions } from '../../src/api/tumblr';
+
+describe('hasFilter', () => {
+  it('ignores fetch options that are not filters', () => {
+    const options: FetchOptions = { limit: 50, includePrivate: true, checkpoint: new FetchCheckpoint('/tmp/checkpoint'), resume: true };
+
+    expect(hasFilter(pickFilter(options))).toBe(false);
+    expect(hasFilter(pickFilter({ ...options, tags: [], originalOnly: false }))).toBe(false);
+  });
+
+  it('spots the filters among them', () => {
+    expect(hasFilter(pickFilter({ limit: 50, types: ['photo'] }))).toBe(true);
+    expect(hasFilter(pickFilter({ limit: 50, since: 1700000000 }))).toBe(true);
+  });
+});
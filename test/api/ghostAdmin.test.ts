@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { createAdminToken } from '../../src/api/ghostAdmin';
+
+const secret = 'a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90';
+const key = `6400f1f2a3b4c5d6e7f80912:${secret}`;
+
+function decode(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+describe('createAdminToken', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  const [header, payload, signature] = createAdminToken(key, now).split('.');
+
+  it('names the key in an HS256 header', () => {
+    expect(decode(header)).toEqual({ alg: 'HS256', typ: 'JWT', kid: '6400f1f2a3b4c5d6e7f80912' });
+  });
+
+  it('is valid for the admin API for five minutes', () => {
+    expect(decode(payload)).toEqual({ iat: now / 1000, exp: now / 1000 + 300, aud: '/admin/' });
+  });
+
+  it('is signed with the hex-decoded secret', () => {
+    const expected = crypto.createHmac('sha256', Buffer.from(secret, 'hex')).update(`${header}.${payload}`).digest('base64url');
+
+    expect(signature).toBe(expected);
+  });
+
+  it('rejects malformed keys', () => {
+    expect(() => createAdminToken('no-secret')).toThrow('Invalid Ghost Admin API key');
+    expect(() => createAdminToken('id:not-hex')).toThrow('Invalid Ghost Admin API key');
+  });
+});
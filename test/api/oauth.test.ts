@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildAuthorizationHeader, percentEncode } from '../../src/api/oauth';
+
+// The photo request and credentials from RFC 5849 section 1.2. We always send
+// oauth_version, so the signature is the one from OAuth Core 1.0 appendix A.5,
+// which signs the same request with it.
+const credentials = {
+  consumerKey: 'dpf43f3p2l4k3l03',
+  consumerSecret: 'kd94hf93k423kf44',
+  token: 'nnch734d00sl2jdk',
+  tokenSecret: 'pfkkdhi9sl3r4s00',
+};
+
+function headerParams(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [, key, value] of header.replace(/^OAuth /, '').matchAll(/(\w+)="([^"]*)"/g)) {
+    params[key] = decodeURIComponent(value);
+  }
+  return params;
+}
+
+describe('buildAuthorizationHeader', () => {
+  const header = buildAuthorizationHeader(
+    'get',
+    'http://photos.example.net/photos?file=vacation.jpg&size=original',
+    { file: 'vacation.jpg', size: 'original' },
+    credentials,
+    'kllo9940pd9333jh',
+    1191242096,
+  );
+
+  it('signs the test vector request', () => {
+    expect(headerParams(header)).toEqual({
+      oauth_consumer_key: 'dpf43f3p2l4k3l03',
+      oauth_nonce: 'kllo9940pd9333jh',
+      oauth_signature_method: 'HMAC-SHA1',
+      oauth_timestamp: '1191242096',
+      oauth_token: 'nnch734d00sl2jdk',
+      oauth_version: '1.0',
+      oauth_signature: 'tR3+Ty81lMeYAr/Fid0kMTYa/WM=',
+    });
+  });
+
+  it('percent-encodes the signature in the header', () => {
+    expect(header).toContain('oauth_signature="tR3%2BTy81lMeYAr%2FFid0kMTYa%2FWM%3D"');
+  });
+
+  it('leaves out parameters that are not set', () => {
+    const signed = (params: Record<string, unknown>) =>
+      headerParams(buildAuthorizationHeader('GET', 'http://photos.example.net/photos', params, credentials, 'n', 1)).oauth_signature;
+
+    expect(signed({ file: 'vacation.jpg', size: undefined, tag: null })).toBe(signed({ file: 'vacation.jpg' }));
+  });
+});
+
+describe('percentEncode', () => {
+  it('encodes everything but the RFC 3986 unreserved characters', () => {
+    expect(percentEncode("Ladies + Gentlemen!*'()")).toBe('Ladies%20%2B%20Gentlemen%21%2A%27%28%29');
+    expect(percentEncode('-._~azAZ09')).toBe('-._~azAZ09');
+    expect(percentEncode('☃')).toBe('%E2%98%83');
+  });
+});
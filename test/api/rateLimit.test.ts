@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  backoffDelay,
+  DEFAULT_RETRY_OPTIONS,
+  parseRetryAfter,
+  RateLimitTracker,
+  TumblrQuotaExceededError,
+} from '../../src/api/rateLimit';
+
+const now = new Date('2024-01-01T12:00:00Z');
+
+describe('parseRetryAfter', () => {
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('0', now)).toBe(0);
+  });
+
+  it('reads an HTTP date, never going below zero', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('backoffDelay', () => {
+  const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+  it('doubles the ceiling with each attempt up to the cap', () => {
+    const ceilings = [0, 1, 2, 3, 4, 10].map(attempt => backoffDelay(attempt, options, () => 1));
+
+    expect(ceilings).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+  });
+
+  it('picks a random delay between zero and the ceiling', () => {
+    expect(backoffDelay(2, options, () => 0)).toBe(0);
+    expect(backoffDelay(2, options, () => 0.5)).toBe(2000);
+
+    for (let i = 0; i < 50; i++) {
+      const delay = backoffDelay(20, options);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(10000);
+    }
+  });
+});
+
+describe('RateLimitTracker', () => {
+  const headers = (hourRemaining: number, dayRemaining: number) => ({
+    'x-ratelimit-perhour-limit': '1000',
+    'x-ratelimit-perhour-remaining': String(hourRemaining),
+    'x-ratelimit-perhour-reset': '600',
+    'x-ratelimit-perday-limit': '5000',
+    'x-ratelimit-perday-remaining': String(dayRemaining),
+    'x-ratelimit-perday-reset': '36000',
+  });
+
+  it('waits the minimum interval when the rate-limit headers are missing', () => {
+    const tracker = new RateLimitTracker();
+    tracker.update({ 'content-type': 'application/json' }, now);
+
+    expect(tracker.current).toEqual({});
+    expect(tracker.describe()).toBe('');
+    expect(tracker.waitBeforeRequest(DEFAULT_RETRY_OPTIONS, now)).toBe(DEFAULT_RETRY_OPTIONS.minIntervalMs);
+    expect(tracker.waitAfterThrottle(now)).toBeNull();
+  });
+
+  it('keeps the last known quota when later responses leave the headers out', () => {
+    const tracker = new RateLimitTracker();
+    tracker.update(headers(100, 4000), now);
+    tracker.update({}, now);
+
+    expect(tracker.describe()).toBe('100/1000 requests left this hour, 4000/5000 today');
+  });
+
+  it('spreads the remaining hourly requests over the rest of the hour', () => {
+    const tracker = new RateLimitTracker();
+    tracker.update(headers(100, 4000), now);
+
+    expect(tracker.waitBeforeRequest(DEFAULT_RETRY_OPTIONS, now)).toBe(6000);
+  });
+
+  it('waits for the hourly quota to reset, unless that takes too long', () => {
+    const tracker = new RateLimitTracker();
+    tracker.update(headers(0, 4000), now);
+
+    expect(tracker.waitBeforeRequest(DEFAULT_RETRY_OPTIONS, now)).toBe(600000);
+    expect(tracker.waitAfterThrottle(now)).toBe(600000);
+    expect(() => tracker.waitBeforeRequest({ ...DEFAULT_RETRY_OPTIONS, maxQuotaWaitMs: 60000 }, now))
+      .toThrow(TumblrQuotaExceededError);
+  });
+
+  it('gives up when the daily quota is gone', () => {
+    const tracker = new RateLimitTracker();
+    tracker.update(headers(100, 0), now);
+
+    expect(() => tracker.waitBeforeRequest(DEFAULT_RETRY_OPTIONS, now)).toThrow('Tumblr daily API quota exhausted.');
+    expect(() => tracker.waitAfterThrottle(now)).toThrow(TumblrQuotaExceededError);
+  });
+});
@@ -0,0 +1,206 @@
+import fs from 'fs-extra';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { GhostAdminAPI, GhostAdminPost } from '../../src/api/ghostAdmin';
+import { GhostPublisher } from '../../src/export/ghostPublisher';
+import { GhostPost } from '../../src/transform/formatPost';
+
+interface LoggedRequest {
+  method: string;
+  url: string;
+  authorization: string;
+  body: string;
+}
+
+const key = '6400f1f2a3b4c5d6e7f80912:a1b2c3d4e5f60718293a4b5c6d7e8f90';
+
+// Posts on the stub Ghost site, by id
+let sitePosts: Map<string, GhostAdminPost>;
+let requests: LoggedRequest[];
+let server: http.Server;
+let siteUrl: string;
+let workDir: string;
+
+function reply(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// Just enough of the Admin API for the publisher
+function handle(request: LoggedRequest, response: http.ServerResponse): void {
+  const route = request.url.replace(/^\/ghost\/api\/admin\//, '');
+  const notFound = () => reply(response, 404, { errors: [{ message: 'Resource not found' }] });
+
+  if (request.method === 'POST' && route === 'images/upload/') {
+    const name = request.body.match(/filename="([^"]+)"/)?.[1];
+    return reply(response, 201, { images: [{ url: `${siteUrl}/content/images/uploaded/${name}` }] });
+  }
+  if (request.method === 'GET' && route.startsWith('users/email/')) {
+    return notFound();
+  }
+  if (request.method === 'GET' && route.startsWith('posts/slug/')) {
+    const slug = decodeURIComponent(route.split('/')[2]);
+    const post = Array.from(sitePosts.values()).find(candidate => candidate.slug === slug);
+    return post ? reply(response, 200, { posts: [post] }) : notFound();
+  }
+  if (request.method === 'GET' && route.startsWith('posts/')) {
+    const post = sitePosts.get(route.split('/')[1]);
+    return post ? reply(response, 200, { posts: [post] }) : notFound();
+  }
+  if (request.method === 'POST' && route === 'posts/') {
+    const [input] = JSON.parse(request.body).posts;
+    const post = { id: `ghost-${sitePosts.size + 1}`, slug: input.slug, updated_at: '2024-01-01T00:00:00.000Z' };
+    sitePosts.set(post.id, post);
+    return reply(response, 201, { posts: [post] });
+  }
+  if (request.method === 'PUT' && route.startsWith('posts/')) {
+    const post = sitePosts.get(route.split('/')[1]);
+    if (!post) return notFound();
+    post.updated_at = '2024-01-02T00:00:00.000Z';
+    return reply(response, 200, { posts: [post] });
+  }
+  notFound();
+}
+
+function ghostPost(id: string, slug: string, fields: Partial<GhostPost> = {}): GhostPost {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    title: `Post ${id}`,
+    slug,
+    mobiledoc: JSON.stringify({ version: '0.3.1', atoms: [], cards: [], markups: [], sections: [] }),
+    lexical: null,
+    html: '',
+    comment_id: id,
+    feature_image: null,
+    feature_image_alt: null,
+    feature_image_caption: null,
+    featured: 0,
+    type: 'post',
+    status: 'published',
+    locale: null,
+    visibility: 'public',
+    email_recipient_filter: 'all',
+    published_at: '2023-11-14 22:13:20.000',
+    created_at: '2023-11-14 22:13:20.000',
+    updated_at: '2023-11-14 22:13:20.000',
+    custom_excerpt: null,
+    codeinjection_head: null,
+    codeinjection_foot: null,
+    custom_template: null,
+    canonical_url: null,
+    newsletter_id: null,
+    show_title_and_feature_image: 1,
+    ...fields,
+  };
+}
+
+function publisher(): GhostPublisher {
+  const api = new GhostAdminAPI(siteUrl, key, { retry: { maxRetries: 0 } });
+  return new GhostPublisher(api, { stateFile: path.join(workDir, 'ghost-ids.json'), mediaDir: path.join(workDir, 'media') });
+}
+
+function sent(method: string, route: string): LoggedRequest[] {
+  return requests.filter(request => request.method === method && request.url === `/ghost/api/admin/${route}`);
+}
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const logged = { method: request.method || '', url: request.url || '', authorization: request.headers.authorization || '', body };
+      requests.push(logged);
+      handle(logged, response);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  siteUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  sitePosts = new Map();
+  requests = [];
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghostify-publish-'));
+  return () => fs.remove(workDir);
+});
+
+describe('GhostPublisher', () => {
+  it('creates new posts and updates them by their stored id on the next run', async () => {
+    const first = await publisher().publish([ghostPost('1', 'hello')]);
+
+    expect(first).toMatchObject({ created: 1, updated: 0, failed: [] });
+    expect(await fs.readJson(path.join(workDir, 'ghost-ids.json'))).toEqual({ posts: { 1: 'ghost-1' }, images: {} });
+
+    // Renamed since, so only the stored id can find it
+    const second = await publisher().publish([ghostPost('1', 'hello-again')]);
+
+    expect(second).toMatchObject({ created: 0, updated: 1, failed: [] });
+    expect(sent('GET', 'posts/ghost-1/')).toHaveLength(1);
+    const [update] = sent('PUT', 'posts/ghost-1/');
+    expect(JSON.parse(update.body).posts[0]).toMatchObject({ slug: 'hello-again', updated_at: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('updates a post with the same slug when there is no stored id', async () => {
+    sitePosts.set('existing', { id: 'existing', slug: 'hello', updated_at: '2023-12-31T00:00:00.000Z' });
+
+    const result = await publisher().publish([ghostPost('1', 'hello')]);
+
+    expect(result).toMatchObject({ created: 0, updated: 1 });
+    expect(sent('POST', 'posts/')).toHaveLength(0);
+    const [update] = sent('PUT', 'posts/existing/');
+    expect(JSON.parse(update.body).posts[0].updated_at).toBe('2023-12-31T00:00:00.000Z');
+  });
+
+  it('uploads local images once and points the post at the uploaded copies', async () => {
+    const local = '__GHOST_URL__/content/images/2023/11/photo.jpg';
+    await fs.outputFile(path.join(workDir, 'media/content/images/2023/11/photo.jpg'), 'photo bytes');
+    const mobiledoc = JSON.stringify({ version: '0.3.1', atoms: [], cards: [['image', { src: local }]], markups: [], sections: [[10, 0]] });
+
+    const media = ['content/images/2023/11/photo.jpg'];
+
+    const result = await publisher().publish(
+      [ghostPost('1', 'one', { mobiledoc, feature_image: local }), ghostPost('2', 'two', { feature_image: local })],
+      { mediaByPost: { 1: media, 2: media } },
+    );
+
+    const uploaded = `${siteUrl}/content/images/uploaded/photo.jpg`;
+    expect(result).toMatchObject({ created: 2, imagesUploaded: 1, warnings: [] });
+    expect(sent('POST', 'images/upload/')[0].body).toContain('photo bytes');
+    const inputs = sent('POST', 'posts/').map(request => JSON.parse(request.body).posts[0]);
+    expect(inputs.map(input => input.feature_image)).toEqual([uploaded, uploaded]);
+    expect(JSON.parse(inputs.find(input => input.slug === 'one').mobiledoc).cards[0][1].src).toBe(uploaded);
+  });
+
+  it('uploads nothing outside the files written for the post', async () => {
+    await fs.outputFile(path.join(workDir, 'secret.txt'), 'SECRET=hunter2');
+    const traversal = '__GHOST_URL__/content/images/../../../secret.txt';
+
+    const unlisted = await publisher().publish([ghostPost('1', 'one', { feature_image: traversal })]);
+    const listed = await publisher().publish(
+      [ghostPost('2', 'two', { feature_image: traversal })],
+      { mediaByPost: { 2: ['content/images/../../../secret.txt'] } },
+    );
+
+    expect(sent('POST', 'images/upload/')).toHaveLength(0);
+    expect(unlisted).toMatchObject({ created: 1, imagesUploaded: 0, warnings: [] });
+    expect(listed.warnings).toEqual([`content/images/../../../secret.txt was not found in ${path.join(workDir, 'media')}`]);
+  });
+
+  it('signs every request with an Admin API token', async () => {
+    await publisher().publish([ghostPost('1', 'hello')]);
+
+    expect(requests.length).toBeGreaterThan(0);
+    for (const request of requests) {
+      expect(request.authorization).toMatch(/^Ghost [\w-]+\.[\w-]+\.[\w-]+$/);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GhostExport, GhostExporter } from '../../src/export/jsonWriter';
+import { GhostPost } from '../../src/transform/formatPost';
+
+let workDir: string;
+
+function ghostPost(id: string, paragraphs: number): GhostPost {
+  const html = Array.from({ length: paragraphs }, (_, index) => `<p>Paragraph ${index} of post ${id}</p>`).join('');
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    title: `Post ${id}`,
+    slug: `post-${id}`,
+    mobiledoc: null,
+    lexical: null,
+    html,
+    comment_id: id,
+    feature_image: null,
+    feature_image_alt: null,
+    feature_image_caption: null,
+    featured: 0,
+    type: 'post',
+    status: 'published',
+    locale: null,
+    visibility: 'public',
+    email_recipient_filter: 'all',
+    published_at: '2023-11-14 22:13:20.000',
+    created_at: '2023-11-14 22:13:20.000',
+    updated_at: '2023-11-14 22:13:20.000',
+    custom_excerpt: null,
+    codeinjection_head: null,
+    codeinjection_foot: null,
+    custom_template: null,
+    canonical_url: null,
+    newsletter_id: null,
+    show_title_and_feature_image: 1,
+  };
+}
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghostify-export-'));
+  return () => fs.remove(workDir);
+});
+
+describe('GhostExporter.exportToFiles', () => {
+  // Posts of varying sizes, so files fill up unevenly
+  const posts = Array.from({ length: 30 }, (_, index) => ghostPost(String(index + 1), 5 + (index * 7) % 40));
+  const tagsByPost = Object.fromEntries(posts.map((post, index) => [post.id, [`tag ${index % 4}`, 'shared']]));
+  const mediaByPost = Object.fromEntries(posts.map(post => [post.id, [`content/images/${post.id}.jpg`]]));
+
+  it('keeps every split file under maxBytes and every post in exactly one file', async () => {
+    const maxBytes = 12000;
+    const files = await new GhostExporter().exportToFiles(posts, path.join(workDir, 'blog.json'), { tagsByPost, mediaByPost }, { maxBytes });
+
+    expect(files.length).toBeGreaterThan(2);
+    expect(files.map(file => path.basename(file.path))).toEqual(files.map((_, index) => `blog-${index + 1}.json`));
+
+    const seen: string[] = [];
+    for (const file of files) {
+      const { size } = await fs.stat(file.path);
+      expect(size).toBe(file.bytes);
+      expect(size).toBeLessThanOrEqual(maxBytes);
+
+      const [{ data }] = (await fs.readJson(file.path) as GhostExport).db;
+      const ids = data.posts.map(post => post.id);
+      expect(ids).toHaveLength(file.posts);
+      expect(file.media).toEqual(ids.map(id => `content/images/${id}.jpg`));
+      // Each file carries the tags its posts are linked to
+      const tagIds = new Set(data.tags.map(tag => tag.id));
+      expect(data.posts_tags.every(link => ids.includes(link.post_id) && tagIds.has(link.tag_id))).toBe(true);
+      seen.push(...ids);
+    }
+
+    expect(seen.sort()).toEqual(posts.map(post => post.id).sort());
+  });
+
+  it('keeps the requested name when nothing needs splitting', async () => {
+    const outputPath = path.join(workDir, 'blog.json');
+    const files = await new GhostExporter().exportToFiles(posts.slice(0, 2), outputPath, {}, { maxBytes: 1024 * 1024 });
+
+    expect(files).toMatchObject([{ path: outputPath, posts: 2 }]);
+    expect(await fs.pathExists(path.join(workDir, 'blog-1.json'))).toBe(false);
+  });
+});
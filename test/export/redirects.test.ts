@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MigratedPost, planRedirects, renderRedirects } from '../../src/export/redirects';
+
+function migrated(id: string, postUrl: string, slug: string, tags: string[] = []): MigratedPost {
+  return { source: { id, post_url: postUrl }, post: { slug, status: 'published' }, tags };
+}
+
+describe('planRedirects', () => {
+  it('redirects post ids and tags to their Ghost URLs', () => {
+    const plan = planRedirects([migrated('123', 'https://example.tumblr.com/post/123/hello', 'hello-world', ['Fan Art'])]);
+
+    expect(plan.redirects).toEqual([
+      { from: '/tagged/fan%20art', to: '/tag/fan-art/', kind: 'tag' },
+      { from: '/tagged/fan-art', to: '/tag/fan-art/', kind: 'tag' },
+      { from: '/post/123', to: '/hello-world/', kind: 'post' },
+    ]);
+    expect(plan.collisions).toEqual([]);
+  });
+
+  it('plans no redirect where the slug did not change', () => {
+    const plan = planRedirects([
+      migrated('123', 'https://blog.example.com/hello', 'hello'),
+      migrated('456', 'https://blog.example.com/renamed', 'new-name'),
+    ]);
+
+    expect(plan.redirects.map(redirect => redirect.from)).toEqual(['/post/123', '/post/456', '/renamed']);
+    expect(plan.shadowed).toEqual([]);
+  });
+});
+
+describe('renderRedirects', () => {
+  const redirects = planRedirects([
+    migrated('123', 'https://example.tumblr.com/post/123/hello', 'hello'),
+    migrated('456', 'https://blog.example.com/what?(really)', 'really', ['c++']),
+  ]).redirects;
+
+  it('writes Ghost redirects.yaml with escaped regex keys', () => {
+    expect(renderRedirects(redirects, 'yaml')).toBe([
+      '301:',
+      "  '^\\/post\\/123(?:\\/.*)?$': '/hello/'",
+      "  '^\\/tagged\\/c%2B%2B(?:\\/.*)?$': '/tag/c/'",
+      "  '^\\/post\\/456(?:\\/.*)?$': '/really/'",
+      "  '^\\/what(?:\\/.*)?$': '/really/'",
+      '302:',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes Ghost redirects.json with the same patterns', () => {
+    const json = JSON.parse(renderRedirects(redirects, 'json'));
+
+    expect(json).toHaveLength(4);
+    expect(json[1]).toEqual({ from: '^\\/tagged\\/c%2B%2B(?:\\/.*)?$', to: '/tag/c/', permanent: true });
+  });
+
+  it('escapes regex characters in slugs', () => {
+    const [{ from }] = JSON.parse(renderRedirects([{ from: '/post/1/a.b+c(d)', to: '/abcd/', kind: 'post' }], 'json'));
+
+    expect(from).toBe('^\\/post\\/1\\/a\\.b\\+c\\(d\\)(?:\\/.*)?$');
+    expect(new RegExp(from).test('/post/1/a.b+c(d)/amp')).toBe(true);
+    expect(new RegExp(from).test('/post/1/aXb+c(d)')).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { writeImportZip } from '../../src/export/zipWriter';
+
+let workDir: string;
+let mediaRoot: string;
+let jsonPath: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghostify-zip-'));
+  mediaRoot = path.join(workDir, 'media');
+  jsonPath = path.join(workDir, 'demo-2.json');
+  await fs.outputJson(jsonPath, { db: [] });
+  await fs.outputFile(path.join(mediaRoot, 'content/images/2023/11/photo.jpg'), 'photo');
+  await fs.outputFile(path.join(workDir, 'secret.txt'), 'SECRET=hunter2');
+  return () => fs.remove(workDir);
+});
+
+describe('writeImportZip', () => {
+  it('bundles the listed media files next to the JSON', async () => {
+    const zipPath = path.join(workDir, 'demo-2.zip');
+
+    await writeImportZip(zipPath, jsonPath, mediaRoot, ['content/images/2023/11/photo.jpg']);
+
+    const names = new AdmZip(zipPath).getEntries().map(entry => entry.entryName);
+    expect(names.sort()).toEqual(['content/images/2023/11/photo.jpg', 'demo-2.json']);
+  });
+
+  it('refuses files outside the media folder', async () => {
+    const zipPath = path.join(workDir, 'demo-2.zip');
+
+    await expect(writeImportZip(zipPath, jsonPath, mediaRoot, ['content/images/../../../secret.txt']))
+      .rejects.toThrow('outside the media folder');
+    expect(await fs.pathExists(zipPath)).toBe(false);
+  });
+});
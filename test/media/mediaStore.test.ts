@@ -0,0 +1,135 @@
+import fs from 'fs-extra';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MediaStore } from '../../src/media/mediaStore';
+
+// Files the stub serves, by path; anything else is a 404
+const files: Record<string, string> = {
+  '/a/photo.jpg': 'first photo',
+  '/b/photo.jpg': 'second photo',
+  '/c/photo.jpg': 'third photo',
+  '/copy-1.jpg': 'same bytes',
+  '/copy-2.jpg': 'same bytes',
+};
+
+let server: http.Server;
+let baseUrl: string;
+let rootDir: string;
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    const body = files[request.url || ''];
+    // A little delay lets concurrent downloads overlap
+    setTimeout(() => {
+      response.writeHead(body === undefined ? 404 : 200);
+      response.end(body);
+    }, 10);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghostify-media-'));
+  return () => fs.remove(rootDir);
+});
+
+const publishedAt = new Date('2021-03-15T12:00:00Z');
+
+describe('MediaStore', () => {
+  it('stores images under content/images/YYYY/MM and rewrites the HTML and feature image', async () => {
+    const store = new MediaStore({ rootDir });
+    const html = `<p><a href="${baseUrl}/a/photo.jpg"><img src="${baseUrl}/a/photo.jpg" srcset="${baseUrl}/a/photo.jpg 500w"></a></p>`;
+
+    const result = await store.localizePost(html, `${baseUrl}/b/photo.jpg`, publishedAt);
+
+    expect(result.html).toBe('<p><a href="__GHOST_URL__/content/images/2021/03/photo.jpg"><img src="__GHOST_URL__/content/images/2021/03/photo.jpg"></a></p>');
+    expect(result.featureImage).toMatch(/^__GHOST_URL__\/content\/images\/2021\/03\/photo-[0-9a-f]{8}\.jpg$/);
+    expect(await fs.readFile(path.join(rootDir, 'content/images/2021/03/photo.jpg'), 'utf8')).toBe('first photo');
+    expect(result.files).toEqual(['content/images/2021/03/photo.jpg', result.featureImage?.replace('__GHOST_URL__/', '')]);
+  });
+
+  it('lists only the files it wrote, whatever the content points at', async () => {
+    const store = new MediaStore({ rootDir });
+    const html = '<p><img src="__GHOST_URL__/content/images/../../../../secret.txt"></p>';
+
+    const result = await store.localizePost(html, null, publishedAt);
+
+    expect(result.html).toBe(html);
+    expect(result.files).toEqual([]);
+  });
+
+  it('deduplicates files by content hash and remembers them across runs', async () => {
+    const store = new MediaStore({ rootDir });
+    const first = await store.store(`${baseUrl}/copy-1.jpg`, publishedAt);
+    const second = await store.store(`${baseUrl}/copy-2.jpg`, new Date('2022-01-01T00:00:00Z'));
+
+    expect(second).toBe(first);
+    expect(store.downloadedCount).toBe(1);
+
+    const manifest = await fs.readJson(path.join(rootDir, 'manifest.json'));
+    expect(Object.keys(manifest.urls)).toHaveLength(2);
+    const rerun = new MediaStore({ rootDir });
+    expect(await rerun.store(`${baseUrl}/copy-2.jpg`, publishedAt)).toBe(first);
+  });
+
+  it('keeps the original URL when a download fails', async () => {
+    const store = new MediaStore({ rootDir });
+    const html = `<p><img src="${baseUrl}/missing.jpg"></p>`;
+
+    const result = await store.localizePost(html, `${baseUrl}/missing.jpg`, publishedAt);
+
+    expect(result.html).toBe(html);
+    expect(result.featureImage).toBe(`${baseUrl}/missing.jpg`);
+    expect(store.failedDownloads.has(`${baseUrl}/missing.jpg`)).toBe(true);
+  });
+
+  it('copies local files only from inside its local roots', async () => {
+    const archiveDir = path.join(rootDir, 'archive');
+    const inside = path.join(archiveDir, 'media', '123.jpg');
+    const outside = path.join(rootDir, 'secret.txt');
+    await fs.outputFile(inside, 'archived photo');
+    await fs.outputFile(outside, 'SECRET=hunter2');
+    const store = new MediaStore({ rootDir: path.join(rootDir, 'out'), localRoots: [archiveDir] });
+
+    expect(await store.store(inside, publishedAt)).toBe('__GHOST_URL__/content/images/2021/03/123.jpg');
+    expect(await store.store(pathToFileURL(inside).href, publishedAt)).toBe('__GHOST_URL__/content/images/2021/03/123.jpg');
+
+    for (const source of [outside, pathToFileURL(outside).href, path.join(archiveDir, '../secret.txt'), '/images/x.png']) {
+      expect(await store.store(source, publishedAt)).toBeNull();
+      expect(store.failedDownloads.has(source)).toBe(true);
+    }
+    expect(store.downloadedCount).toBe(1);
+  });
+
+  it('gives same-named files downloaded at once paths of their own', async () => {
+    const store = new MediaStore({ rootDir });
+
+    const urls = await Promise.all(['/a/photo.jpg', '/b/photo.jpg', '/c/photo.jpg'].map(file => store.store(`${baseUrl}${file}`, publishedAt)));
+
+    expect(new Set(urls).size).toBe(3);
+    const contents = await Promise.all(urls.map(url => fs.readFile(path.join(rootDir, (url as string).replace('__GHOST_URL__/', '')), 'utf8')));
+    expect(contents.sort()).toEqual(['first photo', 'second photo', 'third photo']);
+  });
+
+  it('writes identical files downloaded at once a single time', async () => {
+    const store = new MediaStore({ rootDir });
+
+    const [first, second] = await Promise.all([
+      store.store(`${baseUrl}/copy-1.jpg`, publishedAt),
+      store.store(`${baseUrl}/copy-2.jpg`, publishedAt),
+    ]);
+
+    expect(second).toBe(first);
+    expect(await fs.readdir(path.join(rootDir, 'content/images/2021/03'))).toHaveLength(1);
+    expect(store.downloadedCount).toBe(1);
+  });
+});
@@ -0,0 +1,45 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { JsonFileSource } from '../../src/sources/jsonFiles';
+import { PostTransformer } from '../../src/transform/formatPost';
+
+const fixture = path.join(__dirname, '../fixtures/tumblr-response.json');
+const author = { name: 'Test Author', email: 'test@example.com', slug: 'test-author' };
+
+describe('JsonFileSource', () => {
+  it('reads the blog name and the posts, newest first', async () => {
+    const source = new JsonFileSource(fixture);
+
+    expect(await source.blogName()).toBe('demo');
+    expect((await source.fetchAllPosts('')).map(post => post.id)).toEqual(['720000000000000020', '720000000000000010']);
+    expect(await source.fetchAllPosts('', { includePrivate: true })).toHaveLength(3);
+  });
+
+  it('feeds the transformer', async () => {
+    const posts = await new JsonFileSource(fixture).fetchAllPosts('', { includePrivate: true });
+    const transformer = new PostTransformer(author);
+    const [diary, hello, photo] = posts.map(post => transformer.transformWithOutcome(post));
+
+    expect(diary.post).toMatchObject({ slug: 'diary', status: 'draft', published_at: null });
+
+    expect(hello.post).toMatchObject({
+      title: 'Hello world',
+      slug: 'hello-world',
+      status: 'published',
+      published_at: '2023-11-16 02:00:00.000',
+      html: '<h2>Hello world</h2><p>First post on the new blog.</p>',
+    });
+    expect(hello.outcome.titleStrategy).toBe('heading');
+    expect(JSON.parse(hello.post.mobiledoc || '').sections).toEqual([
+      [1, 'h2', [[0, [], 0, 'Hello world']]],
+      [1, 'p', [[0, [], 0, 'First post on the new blog.']]],
+    ]);
+
+    expect(photo.post).toMatchObject({
+      title: 'Post from 2023-11-14',
+      feature_image: 'https://64.media.tumblr.com/abc/s1280x1920/cat.jpg',
+      feature_image_alt: 'A cat',
+    });
+    expect(photo.outcome).toMatchObject({ type: 'photo', format: 'npf', media: { images: 1 } });
+  });
+});
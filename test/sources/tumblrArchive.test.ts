@@ -0,0 +1,30 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TumblrArchive } from '../../src/sources/tumblrArchive';
+
+let workDir: string;
+let archiveDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ghostify-archive-'));
+  archiveDir = path.join(workDir, 'export');
+  await fs.outputFile(path.join(archiveDir, 'media/111.jpg'), 'photo');
+  await fs.outputFile(path.join(workDir, 'secret.txt'), 'SECRET=hunter2');
+  await fs.outputFile(
+    path.join(archiveDir, 'posts/html/111.html'),
+    '<html><body><p>Hi</p><img src="../../media/111.jpg"><img src="../../../secret.txt">' +
+      '<div id="footer"><span id="timestamp">December 3rd, 2014 3:04pm</span></div></body></html>',
+  );
+  return () => fs.remove(workDir);
+});
+
+describe('TumblrArchive', () => {
+  it('points media at files inside the archive only', async () => {
+    const [post] = await new TumblrArchive(archiveDir).fetchAllPosts('');
+
+    expect(post.body).toBe(`<p>Hi</p><img src="${path.join(archiveDir, 'media/111.jpg')}"><img src="../../../secret.txt">`);
+    expect(post.timestamp).toBe(Date.parse('2014-12-03T15:04:00Z') / 1000);
+  });
+});
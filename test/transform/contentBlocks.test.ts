@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtmlToBlocks } from '../../src/transform/contentBlocks';
+import { LexicalBuilder, LexicalElementNode } from '../../src/transform/lexical';
+import { MobiledocBuilder } from '../../src/transform/mobiledoc';
+
+const text = (value: string) => ({ type: 'text', text: value, formats: [] });
+
+describe('parseHtmlToBlocks', () => {
+  it('keeps nested lists apart from the item they belong to', () => {
+    const blocks = parseHtmlToBlocks('<ul><li>a<ul><li>nested</li></ul></li><li>b</li></ul>');
+
+    expect(blocks).toEqual([{
+      type: 'list',
+      ordered: false,
+      items: [
+        {
+          children: [text('a')],
+          lists: [{ type: 'list', ordered: false, items: [{ children: [text('nested')], lists: [] }] }],
+        },
+        { children: [text('b')], lists: [] },
+      ],
+    }]);
+  });
+
+  it('flattens nested items into separate Mobiledoc list items', () => {
+    const mobiledoc = MobiledocBuilder.build(parseHtmlToBlocks('<ol><li>one<ul><li>two</li></ul></li><li>three</li></ol>'));
+
+    expect(mobiledoc.sections).toEqual([
+      [3, 'ol', [[[0, [], 0, 'one']], [[0, [], 0, 'two']], [[0, [], 0, 'three']]]],
+    ]);
+  });
+
+  it('nests Lexical lists with their depth as indent', () => {
+    const lexical = LexicalBuilder.build(parseHtmlToBlocks('<ul><li>one<ol><li>two</li></ol></li></ul>'));
+    const list = lexical.root.children[0] as LexicalElementNode;
+    const [first, wrapper] = list.children as LexicalElementNode[];
+
+    expect(list.children).toHaveLength(2);
+    expect(first.children[0]).toMatchObject({ text: 'one' });
+    const nested = wrapper.children[0] as LexicalElementNode;
+    expect(nested).toMatchObject({ type: 'list', listType: 'number', tag: 'ol' });
+    expect(nested.children[0]).toMatchObject({ type: 'listitem', indent: 1, children: [{ text: 'two' }] });
+  });
+
+  it('splits paragraphs around their media so the order is kept', () => {
+    const blocks = parseHtmlToBlocks('<p>before <b>bold <img src="a.jpg"> still bold</b><br><iframe src="https://example.com/x"></iframe> after</p>');
+
+    expect(blocks.map(block => block.type)).toEqual(['paragraph', 'image', 'paragraph', 'embed', 'paragraph']);
+    expect(blocks[0]).toEqual({ type: 'paragraph', children: [text('before '), { type: 'text', text: 'bold', formats: ['strong'] }] });
+    expect(blocks[2]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'still bold', formats: ['strong'] }] });
+    expect(blocks[4]).toEqual({ type: 'paragraph', children: [text('after')] });
+  });
+
+  it('links image cards where the image was wrapped in a link', () => {
+    const blocks = parseHtmlToBlocks(
+      '<p>See <a href="https://example.com/full.jpg"><img src="thumb.jpg"></a></p><figure><a href="/post"><img src="b.jpg"></a></figure>',
+    );
+    const mobiledoc = MobiledocBuilder.build(blocks);
+    const lexical = LexicalBuilder.build(blocks);
+
+    expect(blocks.filter(block => block.type === 'image').map(block => block.type === 'image' && block.href)).toEqual([
+      'https://example.com/full.jpg',
+      '/post',
+    ]);
+    expect(mobiledoc.cards.map(([, payload]) => payload.href)).toEqual(['https://example.com/full.jpg', '/post']);
+    expect(lexical.root.children.filter(node => node.type === 'image').map(node => node.href)).toEqual([
+      'https://example.com/full.jpg',
+      '/post',
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { CrossLinkRewriter, LinkedPost } from '../../src/transform/crossLinks';
+import { GhostPost } from '../../src/transform/formatPost';
+
+function linked(id: string, blog: string, slug: string, ghostSlug: string, status = 'published'): LinkedPost {
+  return {
+    source: { id, slug, post_url: `https://${blog}.tumblr.com/post/${id}/${slug}`, blog_name: blog },
+    post: { slug: ghostSlug, status },
+  };
+}
+
+function rewrite(rewriter: CrossLinkRewriter, href: string) {
+  return rewriter.rewrite({ id: 'post', html: `<a href="${href}">link</a>` } as GhostPost);
+}
+
+describe('CrossLinkRewriter', () => {
+  const rewriter = new CrossLinkRewriter(
+    [
+      linked('1', 'one', 'hello', 'hello'),
+      linked('2', 'two', 'hello', 'hello-2'),
+      linked('3', 'one', 'secret', 'secret', 'draft'),
+    ],
+    ['one', 'two'],
+  );
+
+  it('matches unknown ids by slug within the linked blog', () => {
+    expect(rewrite(rewriter, 'https://two.tumblr.com/post/99/hello').html).toBe('<a href="/hello-2/">link</a>');
+    expect(rewrite(rewriter, 'https://www.tumblr.com/one/98/hello').html).toBe('<a href="/hello/">link</a>');
+  });
+
+  it('leaves links to unpublished posts alone and reports them', () => {
+    const href = 'https://one.tumblr.com/post/3/secret';
+
+    expect(rewrite(rewriter, href)).toEqual({
+      html: `<a href="${href}">link</a>`,
+      rewritten: 0,
+      unresolved: [{ postId: 'post', href }],
+    });
+  });
+});
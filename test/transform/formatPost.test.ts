@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { TumblrPost } from '../../src/api/tumblr';
+import { PostTransformer } from '../../src/transform/formatPost';
+import { SlugRegistry } from '../../src/utils/slug';
+
+function textPost(id: string, title: string, slug = ''): TumblrPost {
+  return {
+    id,
+    type: 'text',
+    blog_name: 'example',
+    post_url: `https://example.tumblr.com/post/${id}`,
+    timestamp: 1700000000,
+    state: 'published',
+    tags: [],
+    title,
+    slug,
+    body: '<p>Body</p>',
+  } as unknown as TumblrPost;
+}
+
+function slugged(id: string, slug: string, createdAt: string) {
+  return { id, slug, created_at: createdAt };
+}
+
+describe('PostTransformer slugs', () => {
+  const transformer = new PostTransformer();
+
+  it('falls back to post-<id> when nothing transliterates', () => {
+    expect(transformer.transform(textPost('123', '日本語のタイトル', 'にほんご')).slug).toBe('post-123');
+    expect(transformer.transform(textPost('124', 'Привет')).slug).toBe('privet');
+  });
+
+  it('lets the oldest post keep a shared slug', () => {
+    const posts = [
+      slugged('3', 'hello', '2023-03-01 00:00:00.000'),
+      slugged('1', 'hello', '2023-01-01 00:00:00.000'),
+      slugged('2', 'hello', '2023-02-01 00:00:00.000'),
+    ];
+
+    expect(transformer.assignUniqueSlugs(posts).map(post => post.slug)).toEqual(['hello-3', 'hello', 'hello-2']);
+  });
+
+  it('orders posts from the same moment by id', () => {
+    const posts = [slugged('10', 'same', '2023-01-01 00:00:00.000'), slugged('9', 'same', '2023-01-01 00:00:00.000')];
+
+    expect(transformer.assignUniqueSlugs(posts).map(post => post.slug)).toEqual(['same-2', 'same']);
+  });
+
+  it('never takes a slug reserved in the registry', () => {
+    const posts = [slugged('1', 'about', '2023-01-01 00:00:00.000'), slugged('2', 'news', '2023-01-02 00:00:00.000')];
+    const result = transformer.assignUniqueSlugs(posts, new SlugRegistry(['about']));
+
+    expect(result.map(post => post.slug)).toEqual(['about-2', 'news']);
+    expect(result[1]).toBe(posts[1]);
+  });
+});
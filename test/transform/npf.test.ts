@@ -0,0 +1,41 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { TumblrPost } from '../../src/api/tumblr';
+import { PostTransformer } from '../../src/transform/formatPost';
+import { LexicalElementNode } from '../../src/transform/lexical';
+import { renderNpfHtml } from '../../src/transform/npf';
+
+const [post] = fs.readJsonSync(path.join(__dirname, '../fixtures/npf-list.json')) as TumblrPost[];
+
+describe('NPF lists', () => {
+  it('nests indented items in the item before them', () => {
+    expect(renderNpfHtml(post.content || [])).toBe(
+      '<p>Packing list</p><ul><li>one<ul><li>two<ol><li>three</li></ol></li></ul></li><li>four</li></ul>',
+    );
+  });
+
+  it('keeps every item separate in Mobiledoc', () => {
+    const ghostPost = new PostTransformer().transform(post);
+    const mobiledoc = JSON.parse(ghostPost.mobiledoc || '');
+
+    expect(mobiledoc.sections[1]).toEqual([
+      3,
+      'ul',
+      [[[0, [], 0, 'one']], [[0, [], 0, 'two']], [[0, [], 0, 'three']], [[0, [], 0, 'four']]],
+    ]);
+  });
+
+  it('keeps the nesting in Lexical', () => {
+    const ghostPost = new PostTransformer(undefined, { contentFormat: 'lexical' }).transform(post);
+    const list = JSON.parse(ghostPost.lexical || '').root.children[1] as LexicalElementNode;
+    const texts = (node: LexicalElementNode): string[] =>
+      node.children.flatMap(child => ('text' in child ? [child.text as string] : texts(child as LexicalElementNode)));
+
+    expect(list.children).toHaveLength(3);
+    expect(texts(list.children[0] as LexicalElementNode)).toEqual(['one']);
+    expect(texts(list.children[1] as LexicalElementNode)).toEqual(['two', 'three']);
+    expect(texts(list.children[2] as LexicalElementNode)).toEqual(['four']);
+    expect((list.children[1] as LexicalElementNode).children[0]).toMatchObject({ type: 'list', listType: 'bullet' });
+  });
+});
@@ -0,0 +1,83 @@
+import * as cheerio from 'cheerio';
+import fs from 'fs-extra';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '../../src/transform/sanitize';
+
+const body = fs.readFileSync(path.join(__dirname, '../fixtures/tumblr-body.html'), 'utf8');
+
+describe('sanitizeHtml', () => {
+  const html = sanitizeHtml(body);
+  const $ = cheerio.load(html, null, false);
+
+  it('turns tmblr-full figures into image cards', () => {
+    const card = $('figure.kg-image-card');
+
+    expect(card).toHaveLength(1);
+    expect(card.find('img').attr('src')).toBe('https://64.media.tumblr.com/abc/s1280x1920/beach.jpg');
+    expect(card.find('figcaption').html()).toBe('At the <b>beach</b>');
+    expect(html).not.toContain('tmblr-full');
+  });
+
+  it('turns npf_row photosets into one gallery, a row per div', () => {
+    const rows = $('figure.kg-gallery-card .kg-gallery-row').toArray();
+
+    expect($('figure.kg-gallery-card')).toHaveLength(1);
+    expect(rows.map(row => $(row).find('img').length)).toEqual([2, 1]);
+    expect(html).not.toContain('npf_row');
+  });
+
+  it('keeps the data-orig-* sizes as image dimensions', () => {
+    const sizes = $('img').toArray().map(img => [$(img).attr('width'), $(img).attr('height')]);
+
+    expect(sizes).toEqual([['1280', '960'], ['640', '480'], ['640', '480'], ['1280', '720']]);
+    expect(html).not.toContain('data-orig');
+  });
+
+  it('removes scripts with their content, inline styles and data-npf', () => {
+    expect(html).not.toMatch(/script|tracker|style=|data-npf/);
+    expect($('p').last().html()).toBe('More <a href="https://example.com/story">soon</a>');
+  });
+
+  it('closes unbalanced markup', () => {
+    expect(sanitizeHtml('<p>Open <b>bold <i>both</p><div>tail')).toBe(
+      '<p>Open <b>bold <i>both</i></b></p><div><b><i>tail</i></b></div>',
+    );
+  });
+
+  it('drops javascript: and other unsafe URLs', () => {
+    const unsafe = sanitizeHtml(
+      '<p><a href="javascript:alert(1)">x</a> <a href=" JaVaScRiPt:alert(1)">y</a>' +
+        '<img src="javascript:alert(1)"><a href="data:text/html,hi">z</a></p>',
+    );
+
+    expect(unsafe).toBe('<p><a>x</a> <a>y</a><img><a>z</a></p>');
+  });
+
+  it('turns players from unknown providers into bookmarks to the player', () => {
+    const embedded = sanitizeHtml(
+      '<p><iframe src="//player.example.com/embed/42" width="560"></iframe></p>' +
+        '<figure class="tmblr-embed" data-url="https://clips.example.org/v/7"><iframe src="https://clips.example.org/embed/7"></iframe></figure>' +
+        '<iframe src="about:blank"></iframe>',
+    );
+    const $embedded = cheerio.load(embedded, null, false);
+
+    expect($embedded('figure.kg-bookmark-card a').toArray().map(a => $embedded(a).attr('href'))).toEqual([
+      'https://player.example.com/embed/42',
+      'https://clips.example.org/v/7',
+    ]);
+    expect($embedded('.kg-bookmark-title').first().text()).toBe('player.example.com');
+    // Nothing to link to, so it stays (with its unsafe src dropped)
+    expect($embedded('iframe')).toHaveLength(1);
+  });
+
+  it('drops media on disk outside the local media roots', () => {
+    const html = '<p><img src="file:///tmp/w/secret.txt"><img src="/tmp/w/secret.txt"><img src="/images/x.png">' +
+      '<img src="https://example.com/a.jpg" srcset="/etc/passwd 900w"><img src="/archive/media/1.jpg"><a href="/about">about</a></p>';
+
+    expect(sanitizeHtml(html)).toBe(
+      '<p><img><img><img><img src="https://example.com/a.jpg"><img><a href="/about">about</a></p>',
+    );
+    expect(sanitizeHtml(html, { localMediaRoots: ['/archive'] })).toContain('<img src="/archive/media/1.jpg">');
+  });
+});
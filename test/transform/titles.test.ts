@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { NpfContentBlock, NpfLayout, TumblrPost } from '../../src/api/tumblr';
+import { chooseTitle } from '../../src/transform/titles';
+
+function npfPost(originalType: string, content: NpfContentBlock[], layout: NpfLayout[] = []): TumblrPost {
+  return {
+    id: '720000000000000001',
+    type: 'blocks',
+    original_type: originalType,
+    timestamp: 1700000000,
+    state: 'published',
+    tags: [],
+    content,
+    layout,
+  } as unknown as TumblrPost;
+}
+
+describe("the 'type' title strategy", () => {
+  it('titles NPF posts by their original type', () => {
+    const audio = npfPost('audio', [{ type: 'audio', artist: 'Artist', title: 'Track' }]);
+    const link = npfPost('link', [{ type: 'link', url: 'https://www.example.com/story' }]);
+    const answer = npfPost(
+      'answer',
+      [{ type: 'text', text: 'What now?' }],
+      [{ type: 'ask', blocks: [0], attribution: { type: 'blog', blog: { name: 'asker', url: 'https://asker.tumblr.com' } } }],
+    );
+
+    expect(chooseTitle(audio, ['type'])).toEqual({ title: 'Artist – Track', strategy: 'type' });
+    expect(chooseTitle(link, ['type'])).toEqual({ title: 'example.com', strategy: 'type' });
+    expect(chooseTitle(answer, ['type'])).toEqual({ title: 'Question from asker', strategy: 'type' });
+  });
+
+  it('falls back to the date for types without a natural title', () => {
+    const text = npfPost('text', [{ type: 'text', text: 'Just words' }]);
+
+    expect(chooseTitle(text, ['type'])).toEqual({ title: 'Post from 2023-11-14', strategy: 'date' });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SLUG_LENGTH, SlugRegistry, slugify } from '../../src/utils/slug';
+
+describe('slugify', () => {
+  it('transliterates accented, Cyrillic and Greek letters', () => {
+    expect(slugify("Crème Brûlée & Straße — it's ok")).toBe('creme-brulee-strasse-its-ok');
+    expect(slugify('Привет, мир')).toBe('privet-mir');
+    expect(slugify('Καλημέρα')).toBe('kalimera');
+  });
+
+  it('drops scripts it cannot transliterate', () => {
+    expect(slugify('日本語のタイトル')).toBe('');
+    expect(slugify('東京 2020')).toBe('2020');
+  });
+
+  it('cuts long slugs at a hyphen', () => {
+    expect(slugify('one two three', 10)).toBe('one-two');
+    expect(slugify('a'.repeat(300))).toHaveLength(MAX_SLUG_LENGTH);
+  });
+});
+
+describe('SlugRegistry', () => {
+  it('suffixes colliding slugs in order', () => {
+    const registry = new SlugRegistry();
+
+    expect(['hello', 'hello', 'hello', 'world'].map(slug => registry.claim(slug))).toEqual(['hello', 'hello-2', 'hello-3', 'world']);
+  });
+
+  it('treats reserved slugs as taken, whatever their case', () => {
+    const registry = new SlugRegistry([' About ', 'hello', 'hello-2']);
+
+    expect(registry.has('about')).toBe(true);
+    expect(registry.claim('about')).toBe('about-2');
+    expect(registry.claim('hello')).toBe('hello-3');
+  });
+
+  it('keeps suffixed slugs within the length limit', () => {
+    const long = 'a'.repeat(MAX_SLUG_LENGTH);
+    const registry = new SlugRegistry([long]);
+
+    expect(registry.claim(long)).toBe(`${'a'.repeat(MAX_SLUG_LENGTH - 2)}-2`);
+  });
+});